@@ -1,14 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { View, StyleSheet } from 'react-native';
+import { View, StyleSheet, Alert } from 'react-native';
 import LoginScreen from './src/screens/LoginScreen';
 import RecordingScreen from './src/screens/RecordingScreen';
 import RecordingsListScreen from './src/screens/RecordingsListScreen';
 import LogsScreen from './src/screens/LogsScreen';
+import SellerSwitchScreen from './src/screens/SellerSwitchScreen';
+import DashboardScreen from './src/screens/DashboardScreen';
+import StorageScreen from './src/screens/StorageScreen';
 import { User, Location } from './src/types';
 import { StorageService } from './src/services/StorageService';
+import { syncService } from './src/services/SyncService';
+import { apiService } from './src/services/ApiService';
+import { DatabaseService } from './src/services/DatabaseService';
+import { AudioService } from './src/services/AudioService';
+import { SecureFileService } from './src/services/SecureFileService';
+import { CredentialService } from './src/services/CredentialService';
+import { DeletionService } from './src/services/DeletionService';
+import { RetentionService } from './src/services/RetentionService';
+import { logger } from './src/utils/Logger';
 
-type Screen = 'login' | 'recording' | 'recordings' | 'logs';
+type Screen = 'login' | 'recording' | 'recordings' | 'logs' | 'sellers' | 'dashboard' | 'storage';
 
 export default function App() {
   const [user, setUser] = useState<User | null>(null);
@@ -20,15 +32,60 @@ export default function App() {
     checkExistingAuth();
   }, []);
 
+  // При истечении сессии возвращаем продавца на экран входа
+  useEffect(() => {
+    const unsubscribe = apiService.onSessionExpired(async () => {
+      const savedUser = await StorageService.getUser();
+      if (savedUser) {
+        await StorageService.saveUser({ ...savedUser, isLoggedIn: false });
+      }
+      handleLogout();
+      Alert.alert('Сессия истекла', 'Войдите в систему заново. Несинхронизированные записи сохранены и будут загружены после входа.');
+    });
+    return unsubscribe;
+  }, []);
+
+  // Удалённая очистка: стираем записи, ключ шифрования и данные для офлайн входа
+  useEffect(() => {
+    const unsubscribe = apiService.onRemoteWipe(async () => {
+      handleLogout();
+      await StorageService.clearAllData();
+      await CredentialService.clearOfflineVerifiers();
+      await CredentialService.clearRoster();
+      Alert.alert('Данные удалены', 'По запросу администратора данные на устройстве удалены. Войдите в систему заново.');
+    });
+    return unsubscribe;
+  }, []);
+
   const checkExistingAuth = async () => {
     try {
+      await StorageService.migrateLegacyCredentials();
+      // Открываем базу записей заранее, чтобы миграции выполнились при запуске
+      await DatabaseService.getDatabase();
+      await SecureFileService.clearDecryptedFiles();
+
+      // Запись, прерванная аварийным завершением, попадает в очередь синхронизации
+      const recovered = await new AudioService().recoverInterruptedSession();
+      if (recovered) {
+        Alert.alert(
+          'Запись восстановлена',
+          'Приложение было закрыто во время записи. Сохранённая часть разговора будет загружена на сервер.'
+        );
+      }
       const savedUser = await StorageService.getUser();
       const savedLocation = await StorageService.getSelectedLocation();
       
-      if (savedUser && savedUser.isLoggedIn && savedLocation) {
+      await apiService.loadAuthToken();
+      if (savedUser && savedUser.isLoggedIn && savedLocation && await isSessionUsable(savedUser)) {
         setUser(savedUser);
         setLocation(savedLocation);
         setCurrentScreen('recording');
+        syncService.start(savedUser.id);
+        // Записи, пролежавшие в корзине дольше срока хранения, стираются окончательно,
+        // затем с устройства убирается аудио, уже загруженное на сервер, по сроку и квоте
+        DeletionService.purgeExpired(savedUser.id)
+          .then(() => RetentionService.applyPolicy())
+          .catch(error => logger.error('Ошибка при очистке хранилища', { message: (error as Error).message }));
       }
     } catch (error) {
       console.error('Ошибка при проверке авторизации:', error);
@@ -37,18 +94,43 @@ export default function App() {
     }
   };
 
+  // Онлайн сессия требует не истёкший токен, офлайн сессия - не истёкший льготный период
+  const isSessionUsable = async (savedUser: User) => {
+    if (!savedUser.isOfflineSession) {
+      return apiService.hasValidSession();
+    }
+    return !savedUser.offlineSessionExpiresAt || new Date(savedUser.offlineSessionExpiresAt).getTime() > Date.now();
+  };
+
   const handleLogin = (loggedInUser: User, selectedLocation: Location) => {
     setUser(loggedInUser);
     setLocation(selectedLocation);
     setCurrentScreen('recording');
+    syncService.start(loggedInUser.id);
   };
 
   const handleLogout = () => {
+    syncService.stop();
     setUser(null);
     setLocation(null);
     setCurrentScreen('login');
   };
 
+  // Быстрое переключение продавца: локация остаётся прежней,
+  // синхронизация перезапускается для записей нового продавца
+  const handleSwitchSeller = (nextUser: User) => {
+    syncService.stop();
+    setUser(nextUser);
+    setCurrentScreen('recording');
+    syncService.start(nextUser.id);
+  };
+
+  // Вход другого продавца с паролем без выхода текущего (его токен уже отложен)
+  const handleAddSeller = () => {
+    syncService.stop();
+    setCurrentScreen('login');
+  };
+
   const handleShowRecordings = () => {
     setCurrentScreen('recordings');
   };
@@ -73,6 +155,9 @@ export default function App() {
             onLogout={handleLogout}
             onShowRecordings={() => setCurrentScreen('recordings')}
             onShowLogs={() => setCurrentScreen('logs')}
+            onSwitchSeller={() => setCurrentScreen('sellers')}
+            onShowDashboard={() => setCurrentScreen('dashboard')}
+            onShowStorage={() => setCurrentScreen('storage')}
           />
         ) : <LoginScreen onLogin={handleLogin} />;
       case 'recordings':
@@ -84,6 +169,23 @@ export default function App() {
         ) : <LoginScreen onLogin={handleLogin} />;
       case 'logs':
         return <LogsScreen onClose={() => setCurrentScreen('recording')} />;
+      case 'sellers':
+        return user ? (
+          <SellerSwitchScreen
+            user={user}
+            onSwitch={handleSwitchSeller}
+            onAddSeller={handleAddSeller}
+            onClose={handleBackToRecording}
+          />
+        ) : <LoginScreen onLogin={handleLogin} />;
+      case 'dashboard':
+        return user ? (
+          <DashboardScreen user={user} onBack={handleBackToRecording} />
+        ) : <LoginScreen onLogin={handleLogin} />;
+      case 'storage':
+        return user ? (
+          <StorageScreen user={user} onBack={handleBackToRecording} />
+        ) : <LoginScreen onLogin={handleLogin} />;
       default:
         return <LoginScreen onLogin={handleLogin} />;
     }
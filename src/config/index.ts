@@ -0,0 +1,49 @@
+// Настройки приложения. Значения EXPO_PUBLIC_* подставляются при сборке (см. профили в eas.json)
+
+// Демо-сборка: разрешает вход под демо-пользователями без сервера
+export const IS_DEMO_BUILD = process.env.EXPO_PUBLIC_DEMO_MODE === 'true';
+
+// Сколько дней после последнего входа онлайн продавец может входить без сети
+export const OFFLINE_LOGIN_GRACE_DAYS = Number(process.env.EXPO_PUBLIC_OFFLINE_LOGIN_GRACE_DAYS) || 7;
+
+// Демо-пользователи существуют только в демо-сборке
+export const DEMO_USERS: { id: string; username: string; password: string }[] = IS_DEMO_BUILD
+  ? [
+      { id: 'demo-1', username: 'продавец1', password: '123456' },
+      { id: 'demo-2', username: 'продавец2', password: '123456' },
+      { id: 'demo-3', username: 'администратор', password: 'admin123' },
+    ]
+  : [];
+
+// Максимальная длительность одного контакта (без учёта пауз)
+export const MAX_CONTACT_DURATION_MINUTES = Number(process.env.EXPO_PUBLIC_MAX_CONTACT_DURATION_MINUTES) || 60;
+
+// За сколько секунд до лимита предупреждать продавца
+export const MAX_DURATION_WARNING_SECONDS = Number(process.env.EXPO_PUBLIC_MAX_DURATION_WARNING_SECONDS) || 60;
+
+// При достижении лимита не останавливать запись, а начинать новый сегмент того же контакта
+export const SEGMENT_LONG_RECORDINGS = process.env.EXPO_PUBLIC_SEGMENT_LONG_RECORDINGS === 'true';
+
+// Уровень входного сигнала (dBFS), ниже которого считаем, что в микрофоне тишина
+export const SILENCE_THRESHOLD_DB = Number(process.env.EXPO_PUBLIC_SILENCE_THRESHOLD_DB) || -50;
+
+// Через сколько секунд непрерывной тишины предупреждать, что микрофон, возможно, закрыт
+export const SILENCE_WARNING_SECONDS = Number(process.env.EXPO_PUBLIC_SILENCE_WARNING_SECONDS) || 15;
+
+// Отказ покупателя от записи не даёт начать запись (иначе отказ только фиксируется)
+export const REQUIRE_CUSTOMER_CONSENT = process.env.EXPO_PUBLIC_REQUIRE_CUSTOMER_CONSENT === 'true';
+
+// Короткое аудио-уведомление о записи, проигрываемое через динамик (пусто - только устное уведомление)
+export const CONSENT_DISCLAIMER_URL = process.env.EXPO_PUBLIC_CONSENT_DISCLAIMER_URL || '';
+
+// Автоостановка после стольких секунд тишины, наступившей после речи (0 - выключено)
+export const AUTO_STOP_SILENCE_SECONDS = Number(process.env.EXPO_PUBLIC_AUTO_STOP_SILENCE_SECONDS) || 0;
+
+// Через сколько дней удалённые записи окончательно стираются из корзины
+export const TRASH_RETENTION_DAYS = Number(process.env.EXPO_PUBLIC_TRASH_RETENTION_DAYS) || 30;
+
+// Через сколько дней после записи удалять с устройства аудио, уже загруженное на сервер
+export const LOCAL_RETENTION_DAYS = Number(process.env.EXPO_PUBLIC_LOCAL_RETENTION_DAYS) || 30;
+
+// Сколько места могут занимать аудио записей на устройстве; сверх квоты удаляются самые старые загруженные
+export const STORAGE_QUOTA_MB = Number(process.env.EXPO_PUBLIC_STORAGE_QUOTA_MB) || 500;
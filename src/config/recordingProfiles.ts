@@ -0,0 +1,87 @@
+import { Audio } from 'expo-av';
+import { AudioCodec, Location, RecordingProfile, RecordingProfileId } from '../types';
+
+// Профили качества записи. Для распознавания речи достаточно моно AAC с низкой
+// частотой дискретизации; archival соответствует прежнему HIGH_QUALITY
+export const RECORDING_PROFILES: Record<RecordingProfileId, RecordingProfile> = {
+  'speech-low': {
+    id: 'speech-low',
+    name: 'Речь (экономный)',
+    codec: 'aac',
+    sampleRate: 16000,
+    channels: 1,
+    bitRate: 24000,
+  },
+  'speech-standard': {
+    id: 'speech-standard',
+    name: 'Речь (стандарт)',
+    codec: 'aac',
+    sampleRate: 22050,
+    channels: 1,
+    bitRate: 48000,
+  },
+  archival: {
+    id: 'archival',
+    name: 'Архивное',
+    codec: 'aac',
+    sampleRate: 44100,
+    channels: 2,
+    bitRate: 128000,
+  },
+};
+
+export const DEFAULT_RECORDING_PROFILE_ID: RecordingProfileId =
+  (process.env.EXPO_PUBLIC_RECORDING_PROFILE as RecordingProfileId) in RECORDING_PROFILES
+    ? (process.env.EXPO_PUBLIC_RECORDING_PROFILE as RecordingProfileId)
+    : 'speech-standard';
+
+export const isRecordingProfileId = (value: unknown): value is RecordingProfileId =>
+  typeof value === 'string' && value in RECORDING_PROFILES;
+
+// Профиль, выбранный на устройстве, важнее профиля локации; иначе - профиль по умолчанию
+export const resolveRecordingProfile = (
+  location: Location,
+  deviceProfileId: RecordingProfileId | null
+): RecordingProfile =>
+  RECORDING_PROFILES[deviceProfileId || location.recordingProfile || DEFAULT_RECORDING_PROFILE_ID];
+
+// Контейнер и кодировщик для кодека профиля
+const CODEC_OPTIONS: Record<AudioCodec, {
+  androidOutputFormat: Audio.AndroidOutputFormat;
+  androidAudioEncoder: Audio.AndroidAudioEncoder;
+  iosOutputFormat: Audio.IOSOutputFormat;
+}> = {
+  aac: {
+    androidOutputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    androidAudioEncoder: Audio.AndroidAudioEncoder.AAC,
+    iosOutputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+  },
+};
+
+// Параметры expo-av для профиля
+export const toRecordingOptions = (profile: RecordingProfile): Audio.RecordingOptions => ({
+  isMeteringEnabled: true,
+  android: {
+    extension: '.m4a',
+    outputFormat: CODEC_OPTIONS[profile.codec].androidOutputFormat,
+    audioEncoder: CODEC_OPTIONS[profile.codec].androidAudioEncoder,
+    sampleRate: profile.sampleRate,
+    numberOfChannels: profile.channels,
+    bitRate: profile.bitRate,
+  },
+  ios: {
+    extension: '.m4a',
+    outputFormat: CODEC_OPTIONS[profile.codec].iosOutputFormat,
+    audioQuality: profile.id === 'archival' ? Audio.IOSAudioQuality.MAX : Audio.IOSAudioQuality.MEDIUM,
+    sampleRate: profile.sampleRate,
+    numberOfChannels: profile.channels,
+    bitRate: profile.bitRate,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: profile.bitRate,
+  },
+});
@@ -0,0 +1,31 @@
+import { ScriptChecklist } from '../types';
+
+// Стандартный скрипт магазинов. Используется, если для локации на сервере не задан свой
+export const DEFAULT_SCRIPT_CHECKLIST: ScriptChecklist = {
+  id: 'default',
+  name: 'Стандартный скрипт',
+  items: [
+    {
+      id: 'greeting',
+      title: 'Приветствие',
+      phrases: ['здравствуйте', 'добрый день', 'добрый вечер', 'доброе утро', 'приветствую'],
+    },
+    {
+      id: 'needs_discovery',
+      title: 'Выявление потребностей',
+      phrases: ['что вы ищете', 'что для вас важно', 'для каких целей', 'какой бюджет', 'чем могу помочь'],
+      patterns: ['для (чего|кого) (вам|вы|нужен|нужна|нужно)'],
+    },
+    {
+      id: 'extended_warranty',
+      title: 'Предложение расширенной гарантии',
+      phrases: ['расширенная гарантия', 'дополнительная гарантия'],
+      patterns: ['(расширенн|дополнительн)\\S* гарант'],
+    },
+    {
+      id: 'farewell',
+      title: 'Прощание',
+      phrases: ['до свидания', 'всего доброго', 'хорошего дня', 'спасибо за покупку', 'ждем вас снова'],
+    },
+  ],
+};
@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { User, Recording, ApiRecording, RecordingStats, Location } from '../types';
+import { StorageService } from '../services/StorageService';
+import { apiService } from '../services/ApiService';
+import { isInTrash } from '../services/DeletionService';
+import {
+  buildDashboardStats,
+  DashboardEntry,
+  DashboardPeriod,
+  getHistoryStart,
+  GroupStats,
+  PERIOD_LABELS,
+} from '../utils/DashboardStats';
+import { resolveLocationName } from '../utils/LocationNames';
+
+// Запись или сегмент с ключом контакта, которому он принадлежит
+interface ContactEntry extends DashboardEntry {
+  contactKey: string;
+}
+
+interface DashboardScreenProps {
+  user: User;
+  onBack: () => void;
+}
+
+const SERVER_PAGE_SIZE = 200;
+
+// Записи с сервера загружаются страницами, пока не будет покрыт месяц и предыдущий месяц
+// для тренда. Дата загрузки не раньше даты записи, поэтому по ней безопасно остановиться
+const loadServerRecordings = async (): Promise<ApiRecording[] | null> => {
+  const historyStart = getHistoryStart(new Date());
+  const response = await apiService.getAllRecordings(SERVER_PAGE_SIZE, page =>
+    page.every(recording => new Date(recording.uploaded_at) < historyStart)
+  );
+  return response.success ? response.recordings : null;
+};
+
+export default function DashboardScreen({ user, onBack }: DashboardScreenProps) {
+  const [period, setPeriod] = useState<DashboardPeriod>('today');
+  const [localRecordings, setLocalRecordings] = useState<Recording[]>([]);
+  const [serverRecordings, setServerRecordings] = useState<ApiRecording[] | null>(null);
+  const [serverStats, setServerStats] = useState<RecordingStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [knownLocations, setKnownLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    loadData().finally(() => setIsLoading(false));
+  }, []);
+
+  const loadData = async () => {
+    // Записи в корзине в статистику не входят
+    setLocalRecordings((await StorageService.getRecordings()).filter(r => !isInTrash(r)));
+    setKnownLocations(await StorageService.getKnownLocations());
+
+    try {
+      const [statsResponse, recordings] = await Promise.all([
+        apiService.getRecordingStats(),
+        loadServerRecordings(),
+      ]);
+      setServerStats(statsResponse.success ? statsResponse.stats : null);
+      setServerRecordings(recordings);
+    } catch (error) {
+      console.log('Не удалось загрузить статистику с сервера:', error);
+      setServerStats(null);
+      setServerRecordings(null);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadData();
+    setIsRefreshing(false);
+  };
+
+  const getLocationName = (locationId: string) => resolveLocationName(knownLocations, locationId);
+
+  const unsyncedRecordings = localRecordings.filter(r => !r.synced);
+
+  const toLocalEntry = (recording: Recording): ContactEntry => ({
+    contactKey: recording.contactId || recording.id,
+    date: new Date(recording.startTime),
+    durationMs: recording.duration,
+    locationId: recording.locationId,
+    locationName: getLocationName(recording.locationId),
+    sellerName: recording.username || (recording.userId === user.id ? user.username : `Продавец ${recording.userId}`),
+  });
+
+  const toServerEntry = (recording: ApiRecording): ContactEntry => {
+    const locationId = recording.location_id?.toString() || '';
+    return {
+      contactKey: recording.contact_id || recording.client_id || `server_${recording.id}`,
+      date: new Date(recording.recording_date),
+      durationMs: (recording.duration_seconds || 0) * 1000,
+      locationId,
+      locationName: recording.location_name || getLocationName(locationId),
+      sellerName: recording.username
+        || (!recording.user_id || recording.user_id.toString() === user.id ? user.username : `Продавец ${recording.user_id}`),
+    };
+  };
+
+  // Сегменты одного длинного контакта объединяются в один контакт, в том числе
+  // когда часть сегментов уже на сервере, а часть ещё на устройстве
+  const mergeContacts = (segments: ContactEntry[]): DashboardEntry[] => {
+    const contacts = new Map<string, DashboardEntry>();
+    segments.forEach(({ contactKey, ...segment }) => {
+      const existing = contacts.get(contactKey);
+      if (existing) {
+        existing.durationMs += segment.durationMs;
+        if (segment.date < existing.date) existing.date = segment.date;
+        return;
+      }
+      contacts.set(contactKey, segment);
+    });
+    return Array.from(contacts.values());
+  };
+
+  // Без сервера считаем по записям на устройстве, иначе - серверные плюс ещё не загруженные
+  const entries = useMemo(() => mergeContacts(
+    serverRecordings
+      ? [...serverRecordings.map(toServerEntry), ...unsyncedRecordings.map(toLocalEntry)]
+      : localRecordings.map(toLocalEntry)
+  ), [serverRecordings, localRecordings, knownLocations]);
+
+  const stats = useMemo(() => buildDashboardStats(entries, period), [entries, period]);
+
+  const formatDuration = (durationMs: number) => {
+    const minutes = Math.floor(durationMs / 60000);
+    const seconds = Math.floor((durationMs % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const renderTrend = (trendPercent: number | null) => {
+    if (trendPercent === null) return <Text style={styles.trendNeutral}>—</Text>;
+    const style = trendPercent > 0 ? styles.trendUp : trendPercent < 0 ? styles.trendDown : styles.trendNeutral;
+    const arrow = trendPercent > 0 ? '▲' : trendPercent < 0 ? '▼' : '•';
+    return <Text style={style}>{arrow} {Math.abs(trendPercent)}%</Text>;
+  };
+
+  const renderGroup = (title: string, groups: GroupStats[]) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {groups.length === 0 && <Text style={styles.emptyText}>Нет контактов за период</Text>}
+      {groups.map(group => (
+        <View key={group.name} style={styles.groupRow}>
+          <Text style={styles.groupName} numberOfLines={1}>{group.name}</Text>
+          <Text style={styles.groupValue}>{group.count}</Text>
+          <Text style={styles.groupValue}>{formatDuration(group.averageDurationMs)}</Text>
+          <View style={styles.groupTrend}>{renderTrend(group.trendPercent)}</View>
+        </View>
+      ))}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Загрузка статистики...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Назад</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Статистика</Text>
+      </View>
+
+      <View style={styles.periodTabs}>
+        {(Object.keys(PERIOD_LABELS) as DashboardPeriod[]).map(key => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.periodTab, period === key && styles.periodTabActive]}
+            onPress={() => setPeriod(key)}
+          >
+            <Text style={[styles.periodTabText, period === key && styles.periodTabTextActive]}>
+              {PERIOD_LABELS[key]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        {!serverRecordings && (
+          <Text style={styles.offlineText}>
+            Нет связи с сервером: статистика по записям на этом устройстве
+          </Text>
+        )}
+
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{stats.current.count}</Text>
+            <Text style={styles.summaryLabel}>Контактов</Text>
+            {renderTrend(stats.trendPercent)}
+          </View>
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryValue}>{formatDuration(stats.current.averageDurationMs)}</Text>
+            <Text style={styles.summaryLabel}>Средняя длительность</Text>
+            <Text style={styles.trendNeutral}>было {formatDuration(stats.previous.averageDurationMs)}</Text>
+          </View>
+        </View>
+
+        {renderGroup('По продавцам', stats.bySeller)}
+        {renderGroup('По локациям', stats.byLocation)}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Всего</Text>
+          {serverStats && (
+            <>
+              <Text style={styles.totalText}>
+                Записей: {serverStats.totalRecordings + unsyncedRecordings.length}
+              </Text>
+              <Text style={styles.totalText}>
+                Средняя длительность на сервере: {formatDuration(serverStats.averageDuration * 1000)}
+              </Text>
+            </>
+          )}
+          <Text style={styles.totalText}>Не загружено с устройства: {unsyncedRecordings.length}</Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: 'white',
+    padding: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  periodTabs: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    padding: 8,
+    marginTop: 8,
+    gap: 8,
+  },
+  periodTab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  periodTabActive: {
+    backgroundColor: '#007AFF',
+  },
+  periodTabText: {
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '600',
+  },
+  periodTabTextActive: {
+    color: 'white',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  offlineText: {
+    fontSize: 13,
+    color: '#FF9500',
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    gap: 4,
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 8,
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  groupName: {
+    flex: 2,
+    fontSize: 14,
+    color: '#333',
+  },
+  groupValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+  },
+  groupTrend: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  trendUp: {
+    fontSize: 13,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  trendDown: {
+    fontSize: 13,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  trendNeutral: {
+    fontSize: 13,
+    color: '#999',
+  },
+  totalText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+});
@@ -11,9 +11,12 @@ import {
   ScrollView,
 } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
-import { User, Location, SAMPLE_LOCATIONS } from '../types';
+import { User, Location, ApiLocation, ScriptChecklist, SAMPLE_LOCATIONS } from '../types';
 import { StorageService } from '../services/StorageService';
-import { apiService, Location as ApiLocation } from '../../services/ApiService';
+import { CredentialService } from '../services/CredentialService';
+import { apiService, ApiError } from '../services/ApiService';
+import { IS_DEMO_BUILD, DEMO_USERS, OFFLINE_LOGIN_GRACE_DAYS } from '../config';
+import { isRecordingProfileId } from '../config/recordingProfiles';
 
 interface LoginScreenProps {
   onLogin: (user: User, location: Location) => void;
@@ -26,18 +29,9 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [apiLocations, setApiLocations] = useState<ApiLocation[]>([]);
 
-  // Простая проверка пользователей (в будущем заменить на API)
-  const DEMO_USERS = [
-    { username: 'продавец1', password: '123456' },
-    { username: 'продавец2', password: '123456' },
-    { username: 'администратор', password: 'admin123' },
-  ];
-
   useEffect(() => {
     // Проверяем, есть ли сохраненная локация
     loadSavedLocation();
-    // Загружаем локации с API
-    loadApiLocations();
   }, []);
 
   const loadSavedLocation = async () => {
@@ -49,20 +43,40 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
     }
   };
 
-  const loadApiLocations = async () => {
+  // Локации с сервера доступны только после авторизации, поэтому загружаем их уже с токеном продавца
+  const loadApiLocations = async (): Promise<ApiLocation[]> => {
     try {
-      // Пытаемся загрузить локации с API
-      const testAuth = await apiService.login('продавец1', '123456');
-      if (testAuth.success) {
-        const locationsResponse = await apiService.getLocations();
-        if (locationsResponse.success) {
-          setApiLocations(locationsResponse.locations);
-        }
-        apiService.clearToken();
+      const locationsResponse = await apiService.getLocations();
+      if (locationsResponse.success) {
+        setApiLocations(locationsResponse.locations);
+        await StorageService.saveLocations(locationsResponse.locations.map(toLocation));
+        await saveScriptChecklists(locationsResponse.locations);
+        return locationsResponse.locations;
       }
     } catch (error) {
       console.log('Не удалось загрузить локации с API, используем локальные');
     }
+    return apiLocations;
+  };
+
+  const toLocation = (apiLocation: ApiLocation): Location => ({
+    id: apiLocation.id.toString(),
+    name: apiLocation.name,
+    address: apiLocation.address,
+    recordingProfile: isRecordingProfileId(apiLocation.recording_profile)
+      ? apiLocation.recording_profile
+      : undefined,
+  });
+
+  // Чек-листы скрипта нужны для проверки транскрипций, в том числе без сети
+  const saveScriptChecklists = async (locations: ApiLocation[]) => {
+    const checklists: Record<string, ScriptChecklist> = {};
+    locations.forEach(location => {
+      if (location.script_checklist) {
+        checklists[location.id.toString()] = location.script_checklist;
+      }
+    });
+    await StorageService.saveScriptChecklists(checklists);
   };
 
   const handleLogin = async () => {
@@ -90,15 +104,12 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
       if (response.success) {
         // Находим выбранную локацию
         let selectedLocation: Location | undefined;
+        const locations = await loadApiLocations();
         
-        if (apiLocations.length > 0) {
-          const apiLocation = apiLocations.find(loc => loc.id.toString() === selectedLocationId);
+        if (locations.length > 0) {
+          const apiLocation = locations.find(loc => loc.id.toString() === selectedLocationId);
           if (apiLocation) {
-            selectedLocation = {
-              id: apiLocation.id.toString(),
-              name: apiLocation.name,
-              address: apiLocation.address,
-            };
+            selectedLocation = toLocation(apiLocation);
           }
         } else {
           selectedLocation = SAMPLE_LOCATIONS.find(loc => loc.id === selectedLocationId);
@@ -112,12 +123,13 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
         const user: User = {
           id: response.user.id.toString(),
           username: response.user.username,
-          password,
           isLoggedIn: true,
+          role: response.user.role,
         };
 
-        // Сохраняем данные
+        // Сохраняем данные. Пароль не храним - только верификатор для входа без сети
         await StorageService.saveUser(user);
+        await CredentialService.saveOfflineVerifier(username, password, user.id);
         await StorageService.saveSelectedLocation(selectedLocation);
 
         onLogin(user, selectedLocation);
@@ -126,52 +138,83 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
       }
     } catch (error) {
       console.warn('❌ Ошибка API авторизации:', error);
-      console.log('🔄 Пытаемся локальную авторизацию...');
-      
-      // Fallback к локальной авторизации
-      const isValidUser = DEMO_USERS.some(
-        user => user.username === username && user.password === password
-      );
 
-      if (!isValidUser) {
-        Alert.alert('Ошибка', 'Неверное имя пользователя или пароль');
+      // Сервер ответил отказом - это не проблема сети, офлайн вход не предлагаем
+      if (error instanceof ApiError) {
+        Alert.alert('Ошибка', error.message || 'Неверное имя пользователя или пароль');
         return;
       }
 
-      const selectedLocation = SAMPLE_LOCATIONS.find(loc => loc.id === selectedLocationId);
-      if (!selectedLocation) {
-        Alert.alert('Ошибка', 'Выбранная локация не найдена');
-        return;
-      }
-
-      // Пытаемся получить настоящий токен с тестовыми данными
-      try {
-        console.log('🔄 Пытаемся авторизоваться как admin для получения токена...');
-        const fallbackResponse = await apiService.login('admin', 'admin123');
-        if (fallbackResponse.success) {
-          console.log('✅ Получен настоящий токен через админскую учетную запись');
-        } else {
-          console.warn('❌ Не удалось получить токен через админскую учетную запись');
-        }
-      } catch (tokenError) {
-        console.warn('❌ Ошибка получения токена через админскую учетную запись:', tokenError);
-      }
+      console.log('🔄 Сервер недоступен, пытаемся офлайн вход...');
+      await handleOfflineLogin();
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      const user: User = {
-        id: Date.now().toString(),
-        username,
-        password,
-        isLoggedIn: true,
-      };
+  // Офлайн вход разрешён только тем, кто уже входил онлайн на этом устройстве,
+  // и только в течение OFFLINE_LOGIN_GRACE_DAYS после последнего входа онлайн
+  const handleOfflineLogin = async () => {
+    // Без сервера локация ищется среди сохранённых на устройстве, включая загруженные при прошлом входе
+    const knownLocations = await StorageService.getKnownLocations();
+    const selectedLocation = knownLocations.find(loc => loc.id === selectedLocationId);
+    if (!selectedLocation) {
+      Alert.alert('Ошибка', 'Выбранная локация не найдена');
+      return;
+    }
 
+    const demoUser = DEMO_USERS.find(
+      user => user.username === username && user.password === password
+    );
+    if (demoUser) {
+      const user: User = { id: demoUser.id, username, isLoggedIn: true, isOfflineSession: true };
+      apiService.clearAuthToken();
       await StorageService.saveUser(user);
       await StorageService.saveSelectedLocation(selectedLocation);
-
-      console.log('✅ Локальная авторизация успешна');
+      console.log('✅ Демо вход успешен');
       onLogin(user, selectedLocation);
-    } finally {
-      setIsLoading(false);
+      return;
+    }
+
+    const verified = await CredentialService.verifyOfflinePassword(username, password);
+    if (!verified) {
+      Alert.alert(
+        'Нет связи с сервером',
+        'Без сети можно войти только под учетной записью, которая уже входила на этом устройстве онлайн. Проверьте логин и пароль или подключение к сети.'
+      );
+      return;
     }
+
+    const graceMs = OFFLINE_LOGIN_GRACE_DAYS * 24 * 60 * 60 * 1000;
+    const expiresAt = new Date(new Date(verified.lastOnlineLoginAt).getTime() + graceMs);
+    if (expiresAt.getTime() <= Date.now()) {
+      Alert.alert(
+        'Нет связи с сервером',
+        `Офлайн вход доступен в течение ${OFFLINE_LOGIN_GRACE_DAYS} дн. после последнего входа онлайн. Подключитесь к сети для входа.`
+      );
+      return;
+    }
+
+    const user: User = {
+      id: verified.userId,
+      username,
+      isLoggedIn: true,
+      isOfflineSession: true,
+      offlineSessionExpiresAt: expiresAt.toISOString(),
+    };
+
+    // Токен предыдущего продавца не должен остаться: синхронизация загрузила бы
+    // записи этой сессии от его имени
+    apiService.clearAuthToken();
+    await StorageService.saveUser(user);
+    await StorageService.saveSelectedLocation(selectedLocation);
+
+    console.log('✅ Офлайн вход успешен');
+    Alert.alert(
+      'Офлайн режим',
+      'Нет связи с сервером. Записи сохраняются на устройстве и будут загружены после входа онлайн.'
+    );
+    onLogin(user, selectedLocation);
   };
 
   return (
@@ -237,12 +280,14 @@ export default function LoginScreen({ onLogin }: LoginScreenProps) {
             )}
           </TouchableOpacity>
 
-          <View style={styles.demoInfo}>
-            <Text style={styles.demoText}>Демо-пользователи:</Text>
-            <Text style={styles.demoText}>• продавец1 / 123456</Text>
-            <Text style={styles.demoText}>• продавец2 / 123456</Text>
-            <Text style={styles.demoText}>• администратор / admin123</Text>
-          </View>
+          {IS_DEMO_BUILD && (
+            <View style={styles.demoInfo}>
+              <Text style={styles.demoText}>Демо-пользователи:</Text>
+              {DEMO_USERS.map(user => (
+                <Text key={user.id} style={styles.demoText}>• {user.username} / {user.password}</Text>
+              ))}
+            </View>
+          )}
         </View>
       </ScrollView>
     </KeyboardAvoidingView>
@@ -8,11 +8,24 @@ import {
   SafeAreaView,
   ActivityIndicator,
 } from 'react-native';
-import { User, Location, Recording } from '../types';
+import { User, Location, Recording, RecordingProfileId, CustomerConsent, ConsentMethod, Shift } from '../types';
 import { AudioService } from '../services/AudioService';
 import { StorageService } from '../services/StorageService';
 import { apiService } from '../services/ApiService';
+import { CredentialService } from '../services/CredentialService';
+import { ShiftService } from '../services/ShiftService';
+import { syncService } from '../services/SyncService';
 import { logger } from '../utils/Logger';
+import {
+  MAX_CONTACT_DURATION_MINUTES,
+  MAX_DURATION_WARNING_SECONDS,
+  SEGMENT_LONG_RECORDINGS,
+  SILENCE_WARNING_SECONDS,
+  AUTO_STOP_SILENCE_SECONDS,
+  REQUIRE_CUSTOMER_CONSENT,
+  CONSENT_DISCLAIMER_URL,
+} from '../config';
+import { RECORDING_PROFILES, resolveRecordingProfile } from '../config/recordingProfiles';
 
 interface RecordingScreenProps {
   user: User;
@@ -20,19 +33,58 @@ interface RecordingScreenProps {
   onLogout: () => void;
   onShowRecordings: () => void;
   onShowLogs?: () => void;
+  onSwitchSeller?: () => void;
+  onShowDashboard?: () => void;
+  onShowStorage?: () => void;
 }
 
-export default function RecordingScreen({ user, location, onLogout, onShowRecordings, onShowLogs }: RecordingScreenProps) {
+export default function RecordingScreen({
+  user,
+  location,
+  onLogout,
+  onShowRecordings,
+  onShowLogs,
+  onSwitchSeller,
+  onShowDashboard,
+  onShowStorage,
+}: RecordingScreenProps) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [audioService] = useState(new AudioService());
   const [recordingStartTime, setRecordingStartTime] = useState<Date | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [lastRecordingUri, setLastRecordingUri] = useState<string | null>(null);
+  // Длинный контакт: общий id и номер текущего сегмента
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [segmentIndex, setSegmentIndex] = useState(1);
+  // Согласие покупателя, полученное перед началом контакта (общее для всех сегментов)
+  const [contactConsent, setContactConsent] = useState<CustomerConsent | null>(null);
+  // Открытая смена продавца: записи связываются с ней
+  const [activeShift, setActiveShift] = useState<Shift | null>(null);
+  const [showDurationWarning, setShowDurationWarning] = useState(false);
+  // Уровень сигнала микрофона и длительность текущей тишины
+  const [levelDb, setLevelDb] = useState(-160);
+  const [currentSilenceMs, setCurrentSilenceMs] = useState(0);
+  const [speechDetected, setSpeechDetected] = useState(false);
+  // Профиль качества, выбранный на устройстве (null - профиль локации)
+  const [deviceProfileId, setDeviceProfileId] = useState<RecordingProfileId | null>(null);
+  const recordingProfile = resolveRecordingProfile(location, deviceProfileId);
 
   useEffect(() => {
     initializeAudio();
+    StorageService.getRecordingProfile().then(setDeviceProfileId);
+    StorageService.getActiveShift(user.id).then(setActiveShift);
+    audioService.setMeteringListener(update => {
+      setLevelDb(update.levelDb);
+      setCurrentSilenceMs(update.currentSilenceMs);
+      setSpeechDetected(update.speechDetected);
+    });
+    return () => {
+      audioService.setMeteringListener(null);
+      audioService.stopPlayback();
+    };
   }, []);
 
   // Обновляем время каждую секунду во время записи
@@ -50,6 +102,34 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     };
   }, [isRecording]);
 
+  // Контроль максимальной длительности контакта
+  useEffect(() => {
+    if (!isRecording || isPaused || isLoading || isUploading || !recordingStartTime) return;
+
+    const activeMs = getActiveDurationMs();
+    const maxMs = MAX_CONTACT_DURATION_MINUTES * 60 * 1000;
+    if (activeMs >= maxMs) {
+      logger.warn('⏱️ Достигнута максимальная длительность контакта', { activeMs, segmentIndex });
+      if (SEGMENT_LONG_RECORDINGS) {
+        rollOverSegment();
+      } else {
+        handleContactButton();
+      }
+      return;
+    }
+
+    setShowDurationWarning(activeMs >= maxMs - MAX_DURATION_WARNING_SECONDS * 1000);
+  }, [currentTime]);
+
+  // Автоостановка, когда после разговора наступила долгая тишина
+  useEffect(() => {
+    if (!AUTO_STOP_SILENCE_SECONDS || !isRecording || isPaused || isLoading || isUploading) return;
+    if (speechDetected && currentSilenceMs >= AUTO_STOP_SILENCE_SECONDS * 1000) {
+      logger.info('🤫 Автоостановка записи после тишины', { currentSilenceMs });
+      handleContactButton();
+    }
+  }, [currentSilenceMs]);
+
   const initializeAudio = async () => {
     const hasPermission = await audioService.requestPermissions();
     if (!hasPermission) {
@@ -80,12 +160,79 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     }
   };
 
+  // Уведомление покупателя о записи. Если задано аудио-уведомление, продавец может
+  // проиграть его через динамик, иначе сообщает устно и подтверждает ответ покупателя.
+  // Возвращает null, если продавец отменил начало контакта
+  const requestConsent = async (): Promise<CustomerConsent | null> => {
+    let method: ConsentMethod = 'verbal';
+
+    if (CONSENT_DISCLAIMER_URL) {
+      const playDisclaimer = await new Promise<boolean | null>(resolve => {
+        Alert.alert(
+          'Уведомление о записи',
+          'Проиграть покупателю аудио-уведомление о записи разговора?',
+          [
+            { text: 'Отмена', style: 'cancel', onPress: () => resolve(null) },
+            { text: 'Сообщу устно', onPress: () => resolve(false) },
+            { text: 'Проиграть', onPress: () => resolve(true) },
+          ],
+          { cancelable: false }
+        );
+      });
+      if (playDisclaimer === null) return null;
+
+      if (playDisclaimer) {
+        try {
+          // Вопрос о согласии задаётся, только когда покупатель дослушал уведомление
+          await audioService.playUntilFinished(CONSENT_DISCLAIMER_URL);
+          method = 'audio_disclaimer';
+        } catch (error) {
+          logger.warn('⚠️ Не удалось проиграть аудио-уведомление', { message: (error as Error).message });
+          Alert.alert('Уведомление', 'Не удалось проиграть аудио-уведомление. Сообщите покупателю о записи устно.');
+        }
+      }
+    }
+
+    const status = await new Promise<CustomerConsent['status'] | null>(resolve => {
+      Alert.alert(
+        'Согласие покупателя',
+        method === 'audio_disclaimer'
+          ? 'Покупатель прослушал уведомление. Он согласен на запись разговора?'
+          : 'Сообщите покупателю, что разговор записывается. Покупатель согласен?',
+        [
+          { text: 'Отмена', style: 'cancel', onPress: () => resolve(null) },
+          { text: 'Отказ', style: 'destructive', onPress: () => resolve('refused') },
+          { text: 'Согласен', onPress: () => resolve('given') },
+        ],
+        { cancelable: false }
+      );
+    });
+    if (!status) return null;
+
+    return { status, method, confirmedAt: new Date().toISOString() };
+  };
+
   const startRecording = async () => {
     try {
-      const uri = await audioService.startRecording();
+      const consent = await requestConsent();
+      if (!consent) return;
+
+      logger.info('🤝 Согласие покупателя', consent);
+      if (consent.status === 'refused' && REQUIRE_CUSTOMER_CONSENT) {
+        Alert.alert('Запись не начата', 'Покупатель отказался от записи разговора.');
+        return;
+      }
+
+      const uri = await audioService.startRecording(
+        { userId: user.id, username: user.username, locationId: location.id, consent, shiftId: activeShift?.id },
+        recordingProfile
+      );
       if (uri) {
+        setContactConsent(consent);
         setIsRecording(true);
         setRecordingStartTime(new Date());
+        setContactId(Date.now().toString());
+        setSegmentIndex(1);
         logger.info('✅ Запись началась');
       } else {
         Alert.alert('Ошибка', 'Не удалось начать запись');
@@ -103,7 +250,21 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
         const endTime = new Date();
         const duration = await audioService.getRecordingDuration(uri);
         const durationSeconds = Math.round(duration / 1000);
+        const pauses = audioService.getPauseMarkers();
+        const silenceStats = audioService.getSilenceStats();
+        const trim = audioService.getTrimOffsets(duration);
+        // Профиль и контакт; номер сегмента - только если контакт был разбит на части
+        const contactMeta = {
+          recordingProfile: recordingProfile.id,
+          contactId: contactId || undefined,
+          segmentIndex: segmentIndex > 1 ? segmentIndex : undefined,
+          consent: contactConsent || undefined,
+          shiftId: activeShift?.id,
+        };
         
+        // Id записи на устройстве передаётся на сервер, чтобы сверять списки
+        const recordingId = Date.now().toString();
+
         // Создаем уникальное имя файла
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const filename = `recording_${user.username}_${timestamp}.m4a`;
@@ -116,8 +277,15 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
         });
 
         setIsRecording(false);
+        setIsPaused(false);
         setRecordingStartTime(null);
-        setLastRecordingUri(uri); // Сохраняем URI для тестирования воспроизведения
+        setShowDurationWarning(false);
+        setContactId(null);
+        setSegmentIndex(1);
+        setContactConsent(null);
+        setLevelDb(-160);
+        setCurrentSilenceMs(0);
+        setSpeechDetected(false);
         setIsUploading(true);
 
         // Автоматически загружаем на сервер
@@ -132,25 +300,44 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
             recording_date: recordingStartTime.toISOString(),
           });
           
-          const uploadResult = await audioService.uploadRecording(uri, parseInt(location.id), durationSeconds);
+          const uploadResult = await apiService.uploadRecording({
+            uri,
+            clientId: recordingId,
+            locationId: parseInt(location.id),
+            durationSeconds,
+            recordingDate: recordingStartTime.toISOString(),
+            pauses,
+            ...contactMeta,
+            silenceStats,
+            trim,
+          });
           
           if (uploadResult.success) {
             logger.info('✅ Аудио файл успешно загружен на сервер');
             
-            // Сохраняем запись в локальное хранилище для резервной копии
+            // Сохраняем запись в локальное хранилище для резервной копии (в зашифрованном виде)
+            const savedPath = await audioService.saveRecordingToDocuments(uri, filename);
+            setLastRecordingUri(savedPath); // Сохраняем путь для тестирования воспроизведения
             const recording: Recording = {
-              id: Date.now().toString(),
+              id: recordingId,
               userId: user.id,
+              username: user.username,
               locationId: location.id,
               startTime: recordingStartTime,
               endTime,
-              audioFilePath: uri,
+              audioFilePath: savedPath,
               duration,
-              serverId: Date.now(), // Используем timestamp как ID
+              pauses,
+              ...contactMeta,
+              silenceStats,
+              trim,
+              serverId: uploadResult.recording?.id,
+              serverStatus: uploadResult.recording?.status,
               synced: true,
             };
 
             await StorageService.saveRecording(recording);
+            await StorageService.clearRecordingSession();
 
             Alert.alert(
               '✅ Запись загружена',
@@ -175,19 +362,27 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
           
           // Сохраняем локально если не удалось загрузить на сервер
           const savedPath = await audioService.saveRecordingToDocuments(uri, filename);
+          setLastRecordingUri(savedPath); // Сохраняем путь для тестирования воспроизведения
           
           const recording: Recording = {
-            id: Date.now().toString(),
+            id: recordingId,
             userId: user.id,
+            username: user.username,
             locationId: location.id,
             startTime: recordingStartTime,
             endTime,
             audioFilePath: savedPath,
             duration,
+            pauses,
+            ...contactMeta,
+            silenceStats,
+            trim,
             synced: false,
           };
 
           await StorageService.saveRecording(recording);
+          await StorageService.clearRecordingSession();
+          syncService.schedule();
 
           Alert.alert(
             '⚠️ Проблема с загрузкой',
@@ -208,6 +403,112 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     }
   };
 
+  // Переход к следующему сегменту того же контакта: завершённый сегмент сохраняется
+  // локально и загружается через очередь синхронизации, запись продолжается без диалогов
+  const rollOverSegment = async () => {
+    if (!recordingStartTime) return;
+
+    setIsLoading(true);
+    try {
+      const uri = await audioService.stopRecording();
+      if (!uri) {
+        throw new Error('Не удалось завершить сегмент');
+      }
+
+      const currentContactId = contactId || recordingStartTime.getTime().toString();
+      const filename = `recording_${user.username}_${currentContactId}_part${segmentIndex}.m4a`;
+      const duration = await audioService.getRecordingDuration(uri);
+      const savedPath = await audioService.saveRecordingToDocuments(uri, filename);
+
+      const recording: Recording = {
+        id: Date.now().toString(),
+        userId: user.id,
+        username: user.username,
+        locationId: location.id,
+        startTime: recordingStartTime,
+        endTime: new Date(),
+        audioFilePath: savedPath,
+        duration,
+        pauses: audioService.getPauseMarkers(),
+        silenceStats: audioService.getSilenceStats(),
+        recordingProfile: recordingProfile.id,
+        contactId: currentContactId,
+        segmentIndex,
+        consent: contactConsent || undefined,
+        shiftId: activeShift?.id,
+        synced: false,
+      };
+
+      await StorageService.saveRecording(recording);
+      await StorageService.clearRecordingSession();
+      syncService.schedule();
+      logger.info('✂️ Сегмент контакта сохранён', { contactId: currentContactId, segmentIndex });
+
+      const started = await audioService.startRecording(
+        {
+          userId: user.id,
+          username: user.username,
+          locationId: location.id,
+          consent: contactConsent || undefined,
+          shiftId: activeShift?.id,
+        },
+        recordingProfile
+      );
+      if (!started) {
+        setIsRecording(false);
+        setRecordingStartTime(null);
+        setContactId(null);
+        setSegmentIndex(1);
+        Alert.alert('Ошибка', 'Не удалось начать следующий сегмент записи. Сохранённая часть будет загружена.');
+        return;
+      }
+
+      setContactId(currentContactId);
+      setSegmentIndex(segmentIndex + 1);
+      setRecordingStartTime(new Date());
+      setShowDurationWarning(false);
+    } catch (error) {
+      logger.error('❌ Ошибка при переходе к следующему сегменту', { message: (error as Error).message });
+      setIsRecording(false);
+      setRecordingStartTime(null);
+      Alert.alert('Ошибка', 'Не удалось продолжить длинную запись');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Переключение профиля качества по кругу: профиль локации -> профили по порядку
+  const handleChangeProfile = async () => {
+    if (isRecording) return;
+
+    const options: (RecordingProfileId | null)[] = [null, ...(Object.keys(RECORDING_PROFILES) as RecordingProfileId[])];
+    const nextProfileId = options[(options.indexOf(deviceProfileId) + 1) % options.length];
+    setDeviceProfileId(nextProfileId);
+    await StorageService.saveRecordingProfile(nextProfileId);
+    logger.info('🎚️ Профиль записи изменён', { profile: nextProfileId || 'по локации' });
+  };
+
+  const handlePauseButton = async () => {
+    if (!isRecording || isLoading) return;
+
+    setIsLoading(true);
+    try {
+      if (isPaused) {
+        if (await audioService.resumeRecording()) {
+          setIsPaused(false);
+          logger.info('▶️ Запись продолжена');
+        }
+      } else if (await audioService.pauseRecording()) {
+        setIsPaused(true);
+        logger.info('⏸️ Запись на паузе');
+      } else {
+        Alert.alert('Ошибка', 'Не удалось поставить запись на паузу');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const testPlayback = async () => {
     if (!lastRecordingUri) {
       Alert.alert('Ошибка', 'Нет записи для воспроизведения');
@@ -224,30 +525,116 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     }
   };
 
+  // При выходе стираются записи уходящего продавца. База и ключ шифрования уничтожаются,
+  // только когда на устройстве не осталось продавцов из списка быстрого переключения и данных,
+  // которые нужно сохранить.
+  // Если есть незагруженные записи, продавец выбирает: сохранить их до следующего входа или стереть
   const handleLogout = async () => {
+    const unsyncedRecordings = await StorageService.getUnsyncedRecordings();
+    const unsyncedCount = unsyncedRecordings.filter(recording => recording.userId === user.id).length;
+    // Незагруженные записи других продавцов, сохранённые при их выходе, стирать нельзя
+    const othersHaveUnsynced = unsyncedRecordings.some(recording => recording.userId !== user.id);
+
+    // Записи на юридическом удержании и незагруженные итоги смен переживают выход любого продавца
+    const canWipeDevice = async () => {
+      if ((await CredentialService.getRoster()).length > 0 || othersHaveUnsynced) return false;
+      const hasHeldRecordings = (await StorageService.getRecordings()).some(recording => recording.legalHold);
+      const hasUnsyncedShifts = (await StorageService.getUnsyncedShifts()).length > 0;
+      return !hasHeldRecordings && !hasUnsyncedShifts;
+    };
+
+    const logout = async (wipeData: boolean) => {
+      if (isRecording) {
+        await audioService.discardRecording();
+        await StorageService.clearRecordingSession();
+        setIsRecording(false);
+        setIsPaused(false);
+        setShowDurationWarning(false);
+        setRecordingStartTime(null);
+      }
+      await apiService.logout();
+      // Вышедший продавец больше не доступен в быстром переключении
+      await CredentialService.removeRosterSeller(user.id);
+      if (!wipeData) {
+        await StorageService.removeUser();
+      } else if (await canWipeDevice()) {
+        await StorageService.clearAllData();
+      } else {
+        await StorageService.clearUserData(user.id);
+      }
+      onLogout();
+    };
+
+    if (unsyncedCount === 0) {
+      Alert.alert(
+        'Выход',
+        'Вы уверены, что хотите выйти? Ваши записи на устройстве будут удалены, на сервере они сохранены.',
+        [
+          { text: 'Отмена', style: 'cancel' },
+          { text: 'Выйти', style: 'destructive', onPress: () => logout(true) },
+        ]
+      );
+      return;
+    }
+
     Alert.alert(
       'Выход',
-      'Вы уверены, что хотите выйти?',
+      `На устройстве ${unsyncedCount} незагруженных записей. Сохранить их зашифрованными до следующего входа или удалить безвозвратно?`,
+      [
+        { text: 'Отмена', style: 'cancel' },
+        { text: 'Удалить', style: 'destructive', onPress: () => logout(true) },
+        { text: 'Сохранить', onPress: () => logout(false) },
+      ]
+    );
+  };
+
+  const handleShiftButton = async () => {
+    if (!activeShift) {
+      const shift = await ShiftService.startShift(user, location.id);
+      setActiveShift(shift);
+      logger.info('🟢 Смена начата', { id: shift.id });
+      return;
+    }
+
+    if (isRecording || isUploading) {
+      Alert.alert('Смена', 'Сначала завершите текущий контакт');
+      return;
+    }
+
+    Alert.alert(
+      'Завершение смены',
+      `Завершить смену, начатую в ${formatTime(new Date(activeShift.startedAt))}?`,
       [
         { text: 'Отмена', style: 'cancel' },
         {
-          text: 'Выйти',
-          style: 'destructive',
+          text: 'Завершить',
           onPress: async () => {
-            if (isRecording) {
-              await audioService.stopRecording();
-              setIsRecording(false);
-              setRecordingStartTime(null);
-            }
-            await apiService.logout();
-            await StorageService.removeUser();
-            onLogout();
+            const endedShift = await ShiftService.endShift(activeShift);
+            setActiveShift(null);
+            logger.info('🔴 Смена завершена', { id: endedShift.id, summary: endedShift.summary });
+
+            const summary = endedShift.summary;
+            if (!summary) return;
+            Alert.alert(
+              'Итоги смены',
+              `Контактов: ${summary.contactsCount}\n` +
+                `Записей: ${summary.recordingsCount}\n` +
+                `Время разговоров: ${formatTalkTime(summary.totalTalkMs)}\n` +
+                `Не загружено на сервер: ${summary.unsyncedCount}`
+            );
           },
         },
       ]
     );
   };
 
+  const formatTalkTime = (durationMs: number) => {
+    const totalMinutes = Math.floor(durationMs / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours} ч ${minutes} мин` : `${minutes} мин`;
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('ru-RU', {
       hour: '2-digit',
@@ -256,14 +643,25 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     });
   };
 
+  // Время пауз в длительность контакта не входит
+  const getActiveDurationMs = () => {
+    if (!recordingStartTime) return 0;
+    return currentTime.getTime() - recordingStartTime.getTime() - audioService.getPausedDurationMs(currentTime);
+  };
+
   const getRecordingDuration = () => {
     if (!recordingStartTime) return '00:00';
-    const diffMs = currentTime.getTime() - recordingStartTime.getTime();
+    const diffMs = getActiveDurationMs();
     const minutes = Math.floor(diffMs / 60000);
     const seconds = Math.floor((diffMs % 60000) / 1000);
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Уровень сигнала в диапазоне 0..1 для индикатора (-60 dBFS и ниже - пусто)
+  const getLevelFraction = () => Math.min(1, Math.max(0, (levelDb + 60) / 60));
+
+  const isSilenceWarning = isRecording && !isPaused && currentSilenceMs >= SILENCE_WARNING_SECONDS * 1000;
+
   const getButtonState = () => {
     if (isUploading) return 'uploading';
     if (isLoading) return 'loading';
@@ -289,6 +687,9 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     if (isUploading) {
       return 'Загружаем запись на сервер...\nПожалуйста, подождите';
     }
+    if (isPaused) {
+      return 'Запись на паузе. Нажмите "ПРОДОЛЖИТЬ",\nкогда вернётесь к клиенту';
+    }
     if (isRecording) {
       return 'Нажмите кнопку еще раз для\nзавершения записи разговора';
     }
@@ -299,9 +700,25 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <View style={styles.userInfo}>
-          <Text style={styles.userName}>Продавец: {user.username}</Text>
+          <TouchableOpacity onPress={onSwitchSeller} disabled={!onSwitchSeller || isRecording}>
+            <Text style={styles.userName}>
+              Продавец: {user.username}{onSwitchSeller && !isRecording ? ' ›' : ''}
+            </Text>
+          </TouchableOpacity>
           <Text style={styles.locationName}>Локация: {location.name}</Text>
           <Text style={styles.locationAddress}>{location.address}</Text>
+          <TouchableOpacity onPress={handleChangeProfile} disabled={isRecording}>
+            <Text style={styles.profileText}>
+              Качество: {recordingProfile.name}{deviceProfileId ? '' : ' (по локации)'} ›
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleShiftButton}>
+            <Text style={[styles.profileText, !activeShift && styles.shiftInactiveText]}>
+              {activeShift
+                ? `Смена с ${formatTime(new Date(activeShift.startedAt))} - завершить ›`
+                : 'Смена не начата - начать ›'}
+            </Text>
+          </TouchableOpacity>
         </View>
         <View style={styles.headerButtons}>
           {lastRecordingUri && (
@@ -312,6 +729,24 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
           <TouchableOpacity style={styles.recordingsButton} onPress={() => onShowRecordings()}>
             <Text style={styles.recordingsButtonText}>Записи</Text>
           </TouchableOpacity>
+          {onShowDashboard && (
+            <TouchableOpacity
+              style={[styles.dashboardButton, isRecording && styles.headerButtonDisabled]}
+              onPress={() => onShowDashboard()}
+              disabled={isRecording}
+            >
+              <Text style={styles.dashboardButtonText}>📊</Text>
+            </TouchableOpacity>
+          )}
+          {onShowStorage && (
+            <TouchableOpacity
+              style={[styles.storageButton, isRecording && styles.headerButtonDisabled]}
+              onPress={() => onShowStorage()}
+              disabled={isRecording}
+            >
+              <Text style={styles.dashboardButtonText}>💾</Text>
+            </TouchableOpacity>
+          )}
           {onShowLogs && (
             <TouchableOpacity style={styles.logsButton} onPress={() => onShowLogs()}>
               <Text style={styles.logsButtonText}>Логи</Text>
@@ -323,13 +758,41 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
         </View>
       </View>
 
+      {user.isOfflineSession && (
+        <TouchableOpacity style={styles.offlineBanner} onPress={handleLogout}>
+          <Text style={styles.offlineBannerText}>
+            Офлайн режим: записи сохраняются на устройстве и будут загружены после входа онлайн. Нажмите, чтобы войти заново.
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.content}>
         <View style={styles.recordingArea}>
           {isRecording && (
             <View style={styles.recordingIndicator}>
               <View style={styles.recordingDot} />
-              <Text style={styles.recordingText}>ЗАПИСЬ</Text>
+              <Text style={styles.recordingText}>{isPaused ? 'ПАУЗА' : 'ЗАПИСЬ'}</Text>
               <Text style={styles.recordingTime}>{getRecordingDuration()}</Text>
+              {!isPaused && (
+                <View style={styles.levelMeter}>
+                  <View style={[styles.levelMeterFill, { width: `${getLevelFraction() * 100}%` }]} />
+                </View>
+              )}
+              {isSilenceWarning && (
+                <Text style={styles.durationWarning}>
+                  🔇 Нет звука {Math.floor(currentSilenceMs / 1000)} сек. Проверьте, не закрыт ли микрофон
+                </Text>
+              )}
+              {segmentIndex > 1 && (
+                <Text style={styles.recordingStarted}>Сегмент {segmentIndex}</Text>
+              )}
+              {showDurationWarning && (
+                <Text style={styles.durationWarning}>
+                  {SEGMENT_LONG_RECORDINGS
+                    ? 'Скоро начнётся новый сегмент записи'
+                    : `Лимит ${MAX_CONTACT_DURATION_MINUTES} мин.: запись скоро будет остановлена`}
+                </Text>
+              )}
               <Text style={styles.recordingStarted}>
                 Начата в {recordingStartTime ? formatTime(recordingStartTime) : ''}
               </Text>
@@ -364,6 +827,16 @@ export default function RecordingScreen({ user, location, onLogout, onShowRecord
             )}
           </TouchableOpacity>
 
+          {isRecording && (
+            <TouchableOpacity
+              style={[styles.pauseButton, isPaused && styles.pauseButtonActive]}
+              onPress={handlePauseButton}
+              disabled={isLoading || isUploading}
+            >
+              <Text style={styles.pauseButtonText}>{isPaused ? '▶️ ПРОДОЛЖИТЬ' : '⏸️ ПАУЗА'}</Text>
+            </TouchableOpacity>
+          )}
+
           <View style={styles.instructions}>
             <Text style={styles.instructionText}>
               {getInstructionText()}
@@ -413,6 +886,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#888',
   },
+  profileText: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  shiftInactiveText: {
+    color: '#FF9500',
+  },
   headerButtons: {
     flexDirection: 'row',
     gap: 8,
@@ -450,6 +931,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  offlineBanner: {
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  offlineBannerText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   content: {
     flex: 1,
     justifyContent: 'center',
@@ -492,6 +984,25 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.9,
   },
+  levelMeter: {
+    width: 160,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  levelMeterFill: {
+    height: '100%',
+    backgroundColor: 'white',
+  },
+  durationWarning: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginTop: 6,
+    textAlign: 'center',
+  },
   uploadingIndicator: {
     alignItems: 'center',
     marginBottom: 40,
@@ -541,6 +1052,21 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 30,
   },
+  pauseButton: {
+    marginTop: 24,
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 28,
+    paddingVertical: 12,
+    borderRadius: 24,
+  },
+  pauseButtonActive: {
+    backgroundColor: '#34C759',
+  },
+  pauseButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   instructions: {
     marginTop: 40,
     paddingHorizontal: 20,
@@ -562,4 +1088,24 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  dashboardButton: {
+    backgroundColor: '#5856D6',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  storageButton: {
+    backgroundColor: '#8E8E93',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  dashboardButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  headerButtonDisabled: {
+    opacity: 0.4,
+  },
 }); 
\ No newline at end of file
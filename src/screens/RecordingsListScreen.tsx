@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,11 +10,40 @@ import {
   ActivityIndicator,
   Modal,
   ScrollView,
+  TextInput,
 } from 'react-native';
 import { AudioService } from '../services/AudioService';
-import { Recording, SAMPLE_LOCATIONS, User } from '../types';
+import {
+  Recording,
+  Location,
+  User,
+  TranscriptionCache,
+  TranscriptWord,
+  TranscriptTurn,
+  ScriptChecklist,
+  DeletionScope,
+} from '../types';
 import { StorageService } from '../services/StorageService';
-import { apiService } from '../../services/ApiService';
+import { TranscriptionService } from '../services/TranscriptionService';
+import { ReconciliationService } from '../services/ReconciliationService';
+import { DeletionService, isInTrash } from '../services/DeletionService';
+import { syncService } from '../services/SyncService';
+import {
+  splitQuery,
+  matchesAllTerms,
+  findMatches,
+  highlightSegments,
+  findMatchingWords,
+  TextRange,
+} from '../utils/TextSearch';
+import { calculateConversationMetrics, SPEAKER_LABELS } from '../utils/ConversationMetrics';
+import { evaluateScriptCompliance, aggregateComplianceBySeller, ComplianceResult } from '../utils/ScriptCompliance';
+import { DEFAULT_SCRIPT_CHECKLIST } from '../config/scriptChecklists';
+import { canDeleteLocally, canDeleteEverywhere, isAudited } from '../utils/RecordingPermissions';
+import { resolveLocationName } from '../utils/LocationNames';
+import { hasLocalAudio } from '../utils/RetentionPolicy';
+import { logger } from '../utils/Logger';
+import { TRASH_RETENTION_DAYS } from '../config';
 
 interface RecordingsListScreenProps {
   user: User;
@@ -22,26 +51,44 @@ interface RecordingsListScreenProps {
 }
 
 interface RecordingWithTranscription extends Recording {
-  transcription?: string;
-  transcribedAt?: string;
   isTranscribing?: boolean;
 }
 
+const TRANSCRIPTION_POLL_INTERVAL_MS = 5000;
+// Сколько символов вокруг совпадения показывать в списке
+const SNIPPET_CONTEXT_CHARS = 40;
+
 export default function RecordingsListScreen({ user, onBack }: RecordingsListScreenProps) {
   const [recordings, setRecordings] = useState<RecordingWithTranscription[]>([]);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [serverRecordings, setServerRecordings] = useState<any[]>([]);
+  const [serverTotal, setServerTotal] = useState<number | null>(null);
   const [selectedTranscription, setSelectedTranscription] = useState<{
+    recording: Recording;
     transcription: string;
+    words?: TranscriptWord[];
+    turns?: TranscriptTurn[];
     fileName: string;
     transcribedAt: string;
   } | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [scriptChecklists, setScriptChecklists] = useState<Record<string, ScriptChecklist>>({});
+  const [showTrash, setShowTrash] = useState(false);
+  const [knownLocations, setKnownLocations] = useState<Location[]>([]);
   const [audioService] = useState(new AudioService());
 
   useEffect(() => {
-    loadRecordings();
-    loadServerRecordings();
+    // Список загружается, даже если очистка корзины не удалась
+    DeletionService.purgeExpired(user.id)
+      .catch(error => logger.error('Ошибка при очистке корзины', { message: (error as Error).message }))
+      .then(loadRecordings)
+      .then(reconcileWithServer)
+      .catch(error => logger.error('Ошибка при сверке записей с сервером', { message: (error as Error).message }));
+    StorageService.getScriptChecklists().then(setScriptChecklists);
+    StorageService.getKnownLocations().then(setKnownLocations);
+    return () => {
+      audioService.stopPlayback();
+    };
   }, []);
 
   const loadRecordings = async () => {
@@ -55,22 +102,22 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
     }
   };
 
-  const loadServerRecordings = async () => {
-    try {
-      const response = await apiService.getRecordings();
-      if (response.success) {
-        setServerRecordings(response.recordings);
-      }
-    } catch (error) {
-      console.log('Не удалось загрузить записи с сервера:', error);
-    }
+  // Единый список: записи устройства, связанные с сервером, и записи с других устройств
+  const reconcileWithServer = async () => {
+    const result = await ReconciliationService.reconcile();
+    setServerTotal(result.serverTotal);
+    setRecordings(prev => result.recordings.map(r => ({
+      ...r,
+      isTranscribing: prev.find(p => p.id === r.id)?.isTranscribing || false,
+    })));
   };
 
-  const playRecording = async (recording: RecordingWithTranscription) => {
+  const playRecording = async (recording: Recording, positionMillis: number = 0) => {
     try {
       // Если нажали на ту же запись, просто останавливаем
-      if (playingId === recording.id) {
+      if (playingId === recording.id && positionMillis === 0) {
         setPlayingId(null);
+        await audioService.stopPlayback();
         return;
       }
 
@@ -79,8 +126,12 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
       // Устанавливаем ID воспроизводимой записи
       setPlayingId(recording.id);
 
-      // Воспроизводим через AudioService
-      await audioService.playRecording(recording.audioFilePath);
+      // Воспроизводим через AudioService; аудио, которого нет на устройстве, - с сервера
+      if (!hasLocalAudio(recording) && recording.serverId) {
+        await audioService.playRemoteRecording(recording.serverId, positionMillis);
+      } else {
+        await audioService.playRecording(recording.audioFilePath, positionMillis);
+      }
       
       // Автоматически убираем индикатор воспроизведения через 3 секунды
       setTimeout(() => {
@@ -94,97 +145,191 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
     }
   };
 
+  // Опрос статуса задач транскрипции, пока есть записи в обработке
+  const hasPendingTranscriptions = recordings.some(r => TranscriptionService.isPending(r));
+
+  useEffect(() => {
+    if (!hasPendingTranscriptions) return;
+
+    const interval = setInterval(refreshPendingTranscriptions, TRANSCRIPTION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPendingTranscriptions]);
+
+  const refreshPendingTranscriptions = async () => {
+    const pending = (await StorageService.getRecordings()).filter(r => TranscriptionService.isPending(r));
+
+    for (const recording of pending) {
+      try {
+        const transcription = await TranscriptionService.refreshTranscription(recording);
+        updateTranscription(recording.id, transcription);
+      } catch (error) {
+        console.log('Не удалось обновить статус транскрипции:', error);
+      }
+    }
+  };
+
+  const updateTranscription = (recordingId: string, transcription: TranscriptionCache) => {
+    setRecordings(prev => prev.map(r =>
+      r.id === recordingId ? { ...r, transcription } : r
+    ));
+  };
+
+  const showTranscription = (recording: Recording) => {
+    if (!recording.transcription?.text) return;
+
+    setSelectedTranscription({
+      recording,
+      transcription: recording.transcription.text,
+      words: recording.transcription.words,
+      turns: recording.transcription.turns,
+      fileName: recording.audioFilePath.split('/').pop() || recording.id,
+      transcribedAt: recording.transcription.transcribedAt || recording.transcription.requestedAt,
+    });
+  };
+
   const handleTranscribe = async (recording: RecordingWithTranscription) => {
-    // Ищем соответствующую запись на сервере
-    const serverRecording = serverRecordings.find(sr => 
-      sr.fileName === `recording_${user.username}_${recording.startTime.toISOString().replace(/[:.]/g, '-')}.m4a`
-    );
+    // Готовый текст хранится на устройстве и доступен без сети
+    if (TranscriptionService.isCompleted(recording)) {
+      showTranscription(recording);
+      return;
+    }
 
-    if (!serverRecording) {
+    if (!recording.synced || !recording.serverId) {
       Alert.alert(
-        'Ошибка',
-        'Запись не найдена на сервере. Убедитесь, что запись была синхронизирована.'
+        'Запись не загружена',
+        'Транскрипция доступна после загрузки записи на сервер. Запись будет загружена автоматически при появлении сети.'
       );
+      syncService.schedule();
       return;
     }
 
-    // Проверяем, есть ли уже транскрипция
-    try {
-      const existingTranscription = await apiService.getTranscription(serverRecording.id);
-      if (existingTranscription.success && existingTranscription.transcription) {
-        setSelectedTranscription({
-          transcription: existingTranscription.transcription,
-          fileName: serverRecording.fileName,
-          transcribedAt: existingTranscription.transcribedAt || 'Неизвестно'
-        });
-        return;
-      }
-    } catch (error) {
-      // Транскрипции нет, продолжаем создание
-    }
-
-    // Обновляем состояние - показываем индикатор загрузки
-    setRecordings(prev => prev.map(r => 
+    setRecordings(prev => prev.map(r =>
       r.id === recording.id ? { ...r, isTranscribing: true } : r
     ));
 
     try {
-      // Имитируем аудио данные (в реальном проекте здесь будет чтение файла)
-      const mockAudioData = "mock_base64_audio_data";
-      
-      const result = await apiService.transcribeRecording(serverRecording.id, mockAudioData);
-      
-      if (result.success && result.transcription) {
-        // Обновляем локальную запись
-        setRecordings(prev => prev.map(r => 
-          r.id === recording.id 
-            ? { ...r, transcription: result.transcription, transcribedAt: result.transcribedAt, isTranscribing: false }
-            : r
-        ));
-
-        // Показываем транскрипцию
-        setSelectedTranscription({
-          transcription: result.transcription,
-          fileName: serverRecording.fileName,
-          transcribedAt: result.transcribedAt || 'Только что'
-        });
-
-        Alert.alert('Успех', 'Транскрипция завершена!');
+      // Задача уже на сервере - только обновляем статус
+      const transcription = TranscriptionService.isPending(recording)
+        ? await TranscriptionService.refreshTranscription(recording)
+        : await TranscriptionService.requestTranscription(recording);
+      updateTranscription(recording.id, transcription);
+
+      if (transcription.status === 'completed' && transcription.text) {
+        showTranscription({ ...recording, transcription });
+      } else if (transcription.status === 'failed') {
+        Alert.alert('Ошибка', transcription.error || 'Не удалось выполнить транскрипцию');
       } else {
-        throw new Error(result.message || 'Ошибка транскрипции');
+        Alert.alert('Транскрипция', 'Запись поставлена в очередь на транскрипцию. Текст появится автоматически.');
       }
     } catch (error) {
       console.error('Ошибка транскрипции:', error);
-      Alert.alert('Ошибка', 'Не удалось выполнить транскрипцию');
+      Alert.alert('Ошибка', 'Не удалось выполнить транскрипцию. Проверьте подключение к сети.');
     } finally {
-      setRecordings(prev => prev.map(r => 
+      setRecordings(prev => prev.map(r =>
         r.id === recording.id ? { ...r, isTranscribing: false } : r
       ));
     }
   };
 
-  const handleDeleteRecording = (recording: Recording) => {
+  const getTranscribeLabel = (recording: Recording) => {
+    if (TranscriptionService.isCompleted(recording)) return 'Показать текст';
+    if (TranscriptionService.isPending(recording)) return 'В обработке...';
+    if (recording.transcription?.status === 'failed') return 'Повторить';
+    return 'Транскрипция';
+  };
+
+  const replaceRecording = (updated: Recording) => {
+    setRecordings(prev => prev.map(r => (r.id === updated.id ? { ...r, ...updated } : r)));
+  };
+
+  const deleteRecording = async (recording: Recording, scope: DeletionScope) => {
+    try {
+      replaceRecording(await DeletionService.moveToTrash(user, recording, scope));
+    } catch (error) {
+      Alert.alert('Ошибка', (error as Error).message || 'Не удалось удалить запись');
+    }
+  };
+
+  const handleRestoreRecording = async (recording: Recording) => {
+    try {
+      replaceRecording(await DeletionService.restore(recording));
+    } catch (error) {
+      Alert.alert('Ошибка', 'Не удалось восстановить запись');
+    }
+  };
+
+  const purgeRecording = async (recording: Recording, confirmed: boolean) => {
+    try {
+      const { queued } = await DeletionService.purge(recording, confirmed);
+      setRecordings(prev => prev.filter(r => r.id !== recording.id));
+      if (queued) {
+        Alert.alert('Запись удалена', 'Запись будет удалена с сервера при появлении сети.');
+      }
+    } catch (error) {
+      Alert.alert('Ошибка', (error as Error).message || 'Не удалось удалить запись');
+    }
+  };
+
+  const handlePurgeRecording = (recording: Recording) => {
+    const message = recording.synced
+      ? 'Запись будет удалена окончательно без возможности восстановления.'
+      : 'Запись ещё не загружена на сервер. Если удалить её сейчас, разговор с покупателем будет потерян безвозвратно.';
+
     Alert.alert(
-      'Удаление записи',
-      'Вы уверены, что хотите удалить эту запись?',
+      'Удалить навсегда',
+      message,
       [
         { text: 'Отмена', style: 'cancel' },
         {
-          text: 'Удалить',
+          text: recording.synced ? 'Удалить' : 'Всё равно удалить',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await StorageService.removeRecording(recording.id);
-              setRecordings(prev => prev.filter(r => r.id !== recording.id));
-            } catch (error) {
-              Alert.alert('Ошибка', 'Не удалось удалить запись');
-            }
-          },
+          onPress: () => purgeRecording(recording, !recording.synced),
         },
       ]
     );
   };
 
+  const handleDeleteRecording = (recording: Recording) => {
+    const canLocal = canDeleteLocally(user, recording);
+    const canEverywhere = canDeleteEverywhere(user, recording);
+    if (!canLocal && !canEverywhere) {
+      Alert.alert(
+        'Удаление недоступно',
+        recording.legalHold
+          ? 'Запись на юридическом удержании.'
+          : 'Запись другого продавца ещё не загружена на сервер.'
+      );
+      return;
+    }
+
+    let message = `Запись будет перемещена в корзину и удалена окончательно через ${TRASH_RETENTION_DAYS} дн.`;
+    if (!recording.synced) {
+      message = 'Запись ещё не загружена на сервер. В корзине она будет храниться, пока не загрузится.';
+    } else if (!canEverywhere) {
+      message = isAudited(recording)
+        ? 'Запись на проверке: удалить её с сервера может только администратор. Переместить в корзину на устройстве?'
+        : 'Запись останется на сервере. Переместить её в корзину на устройстве?';
+    }
+
+    Alert.alert(
+      'Удаление записи',
+      message,
+      [
+        { text: 'Отмена', style: 'cancel' },
+        ...(canLocal ? [{
+          text: canEverywhere ? 'Только с устройства' : 'Удалить',
+          style: 'destructive' as const,
+          onPress: () => deleteRecording(recording, 'local'),
+        }] : []),
+        ...(canEverywhere ? [{
+          text: 'Везде',
+          style: 'destructive' as const,
+          onPress: () => deleteRecording(recording, 'everywhere'),
+        }] : []),
+      ]
+    );
+  };
+
   const formatDate = (date: Date) => {
     const recordingDate = new Date(date);
     return recordingDate.toLocaleString('ru-RU', {
@@ -202,9 +347,157 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const getLocationName = (locationId: string) => {
-    const location = SAMPLE_LOCATIONS.find(loc => loc.id === locationId);
-    return location ? location.name : 'Неизвестная локация';
+  const getLocationName = (locationId: string) => resolveLocationName(knownLocations, locationId);
+
+  const getSellerName = (recording: Recording) => {
+    if (recording.username) return recording.username;
+    return recording.userId === user.id ? user.username : `Продавец ${recording.userId}`;
+  };
+
+  const activeRecordings = useMemo(() => recordings.filter(r => !isInTrash(r)), [recordings]);
+  const trashedRecordings = useMemo(() => recordings.filter(isInTrash), [recordings]);
+
+  // Поиск по тексту транскрипций, дате, локации и продавцу
+  const searchTerms = useMemo(() => splitQuery(searchQuery), [searchQuery]);
+
+  const filteredRecordings = useMemo(() => {
+    if (searchTerms.length === 0) return activeRecordings;
+
+    return activeRecordings.filter(recording => matchesAllTerms([
+      recording.transcription?.text,
+      formatDate(recording.startTime),
+      getLocationName(recording.locationId),
+      getSellerName(recording),
+    ], searchTerms));
+  }, [activeRecordings, searchTerms]);
+
+  // Проверка скрипта продаж по закэшированным транскрипциям
+  const complianceByRecording = useMemo(() => {
+    const results: Record<string, ComplianceResult> = {};
+    activeRecordings.forEach(recording => {
+      const checklist = scriptChecklists[recording.locationId] || DEFAULT_SCRIPT_CHECKLIST;
+      const result = evaluateScriptCompliance(recording.transcription, checklist);
+      if (result) {
+        results[recording.id] = result;
+      }
+    });
+    return results;
+  }, [activeRecordings, scriptChecklists]);
+
+  // Сводка по продавцам учитывает текущий поиск (например, по дате или локации)
+  const sellerCompliance = useMemo(() => aggregateComplianceBySeller(
+    filteredRecordings
+      .filter(recording => complianceByRecording[recording.id])
+      .map(recording => ({
+        sellerName: getSellerName(recording),
+        result: complianceByRecording[recording.id],
+      }))
+  ), [filteredRecordings, complianceByRecording]);
+
+  const renderCompliance = (recording: Recording) => {
+    const result = complianceByRecording[recording.id];
+    if (!result) return null;
+
+    return (
+      <View style={styles.complianceContainer}>
+        <Text style={styles.complianceTitle}>
+          📋 Скрипт: {result.passedCount}/{result.totalCount}
+        </Text>
+        <View style={styles.complianceItems}>
+          {result.items.map(item => (
+            <Text
+              key={item.id}
+              style={[styles.complianceItem, item.passed ? styles.compliancePassed : styles.complianceFailed]}
+            >
+              {item.passed ? '✓' : '✗'} {item.title}
+            </Text>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderHighlightedText = (text: string, ranges: TextRange[]) =>
+    highlightSegments(text, ranges).map((segment, index) => (
+      <Text key={index} style={segment.highlighted ? styles.highlight : undefined}>
+        {segment.text}
+      </Text>
+    ));
+
+  // Фрагмент транскрипции вокруг первого совпадения
+  const renderSnippet = (recording: Recording) => {
+    const text = recording.transcription?.text;
+    if (!text || searchTerms.length === 0) return null;
+
+    const firstMatch = findMatches(text, searchTerms)[0];
+    if (!firstMatch) return null;
+
+    const start = Math.max(0, firstMatch.start - SNIPPET_CONTEXT_CHARS);
+    const end = Math.min(text.length, firstMatch.end + SNIPPET_CONTEXT_CHARS);
+    const snippet = text.slice(start, end);
+
+    return (
+      <Text style={styles.searchSnippet} numberOfLines={2}>
+        {start > 0 ? '…' : ''}
+        {renderHighlightedText(snippet, findMatches(snippet, searchTerms))}
+        {end < text.length ? '…' : ''}
+      </Text>
+    );
+  };
+
+  const formatTalkRatio = (sellerTalkRatio: number) => {
+    const sellerPercent = Math.round(sellerTalkRatio * 100);
+    return `${SPEAKER_LABELS.seller} ${sellerPercent}% / ${SPEAKER_LABELS.customer} ${100 - sellerPercent}%`;
+  };
+
+  const renderTalkRatio = (recording: Recording) => {
+    const metrics = calculateConversationMetrics(recording.transcription?.turns || []);
+    if (!metrics) return null;
+
+    return <Text style={styles.talkRatioText}>🗣 {formatTalkRatio(metrics.sellerTalkRatio)}</Text>;
+  };
+
+  // Транскрипция в виде диалога: реплики продавца слева, покупателя справа
+  const renderDialogue = (recording: Recording, turns: TranscriptTurn[]) => {
+    const metrics = calculateConversationMetrics(turns);
+
+    return (
+      <>
+        {metrics && (
+          <View style={styles.metricsContainer}>
+            <Text style={styles.metricsText}>{formatTalkRatio(metrics.sellerTalkRatio)}</Text>
+            <View style={styles.talkRatioBar}>
+              <View style={[styles.talkRatioSeller, { flex: metrics.sellerTalkMs || 0.0001 }]} />
+              <View style={[styles.talkRatioCustomer, { flex: metrics.customerTalkMs || 0.0001 }]} />
+            </View>
+            {metrics.longestMonologue && (
+              <Text style={styles.metricsText}>
+                Самый длинный монолог: {SPEAKER_LABELS[metrics.longestMonologue.speaker]},{' '}
+                {formatDuration(metrics.longestMonologue.durationMs)} (с {formatDuration(metrics.longestMonologue.startMs)})
+              </Text>
+            )}
+          </View>
+        )}
+
+        {turns.map((turn, index) => (
+          <TouchableOpacity
+            key={`${turn.startMs}-${index}`}
+            style={[
+              styles.turnBubble,
+              turn.speaker === 'seller' ? styles.turnSeller : styles.turnCustomer,
+            ]}
+            onPress={() => playRecording(recording, turn.startMs)}
+          >
+            <Text style={styles.turnMeta}>
+              {SPEAKER_LABELS[turn.speaker]} • {formatDuration(turn.startMs)}
+            </Text>
+            <Text style={styles.transcriptionText}>
+              {renderHighlightedText(turn.text, findMatches(turn.text, searchTerms))}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </>
+    );
   };
 
   const renderRecordingItem = ({ item }: { item: RecordingWithTranscription }) => (
@@ -218,20 +511,33 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
         </Text>
       </View>
       
-      <Text style={styles.recordingLocation}>{getLocationName(item.locationId)}</Text>
+      <Text style={styles.recordingLocation}>
+        {getLocationName(item.locationId)} • {getSellerName(item)}
+      </Text>
+      {renderSnippet(item)}
+      {renderTalkRatio(item)}
+      {renderCompliance(item)}
+      {item.interrupted && (
+        <Text style={styles.recordingWarning}>⚠️ Запись прервана: приложение было закрыто во время записи</Text>
+      )}
+      {item.consent?.status === 'refused' && (
+        <Text style={styles.recordingWarning}>⚠️ Покупатель отказался от записи разговора</Text>
+      )}
       
       <View style={styles.recordingActions}>
-        <TouchableOpacity
-          style={[
-            styles.playButton,
-            playingId === item.id && styles.playButtonActive
-          ]}
-          onPress={() => playRecording(item)}
-        >
-          <Text style={styles.playButtonText}>
-            {playingId === item.id ? 'Стоп' : 'Играть'}
-          </Text>
-        </TouchableOpacity>
+        {(hasLocalAudio(item) || !!item.serverId) && (
+          <TouchableOpacity
+            style={[
+              styles.playButton,
+              playingId === item.id && styles.playButtonActive
+            ]}
+            onPress={() => playRecording(item)}
+          >
+            <Text style={styles.playButtonText}>
+              {playingId === item.id ? 'Стоп' : 'Играть'}
+            </Text>
+          </TouchableOpacity>
+        )}
         
         <TouchableOpacity
           style={[styles.actionButton, styles.transcribeButton]}
@@ -242,7 +548,7 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
             <ActivityIndicator size="small" color="white" />
           ) : (
             <Text style={styles.actionButtonText}>
-              {item.transcription ? 'Показать текст' : 'Транскрипция'}
+              {getTranscribeLabel(item)}
             </Text>
           )}
         </TouchableOpacity>
@@ -256,11 +562,64 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
       </View>
       
       <Text style={styles.recordingPath}>
-        Файл: {item.audioFilePath.split('/').pop()}
+        {item.remoteOnly
+          ? 'Записано на другом устройстве'
+          : item.audioRemovedAt
+            ? 'Аудио удалено с устройства, воспроизводится с сервера'
+            : `Файл: ${item.audioFilePath.split('/').pop()}`}
+        {item.legalHold ? ' • ⚖️ Удержание' : ''}
+        {item.serverStatus ? ` • На сервере: ${item.serverStatus}` : item.synced ? '' : ' • Ожидает загрузки'}
       </Text>
     </View>
   );
 
+  // Дней до окончательного удаления из корзины
+  const getDaysUntilPurge = (recording: Recording) => {
+    const deletedAt = new Date(recording.deletedAt || Date.now()).getTime();
+    const purgeAt = deletedAt + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  const renderTrashItem = ({ item }: { item: RecordingWithTranscription }) => (
+    <View style={styles.recordingItem}>
+      <View style={styles.recordingHeader}>
+        <Text style={styles.recordingTitle}>
+          Запись {formatDate(item.startTime)}
+        </Text>
+        <Text style={styles.recordingDuration}>
+          {formatDuration(item.duration)}
+        </Text>
+      </View>
+
+      <Text style={styles.recordingLocation}>
+        {getLocationName(item.locationId)} • {getSellerName(item)}
+      </Text>
+      <Text style={styles.trashInfo}>
+        {item.deletionScope === 'everywhere' ? 'Удаляется везде' : 'Удаляется с устройства'}
+        {' • '}
+        {item.synced
+          ? `будет стёрта через ${getDaysUntilPurge(item)} дн.`
+          : 'ждёт загрузки на сервер'}
+      </Text>
+
+      <View style={styles.recordingActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.restoreButton]}
+          onPress={() => handleRestoreRecording(item)}
+        >
+          <Text style={styles.actionButtonText}>Восстановить</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => handlePurgeRecording(item)}
+        >
+          <Text style={styles.actionButtonText}>Удалить навсегда</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -278,33 +637,81 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
         <TouchableOpacity style={styles.backButton} onPress={onBack}>
           <Text style={styles.backButtonText}>← Назад</Text>
         </TouchableOpacity>
-        <Text style={styles.title}>Записи ({recordings.length})</Text>
+        <Text style={styles.title}>
+          {showTrash ? `Корзина (${trashedRecordings.length})` : `Записи (${activeRecordings.length})`}
+        </Text>
       </View>
 
       <View style={styles.statsContainer}>
         <Text style={styles.statsText}>
-          Всего записей: {recordings.length}
+          Всего записей: {activeRecordings.length}
         </Text>
         <Text style={styles.statsText}>
-          На сервере: {serverRecordings.length}
+          На сервере: {serverTotal ?? '—'}
         </Text>
+        <TouchableOpacity onPress={() => setShowTrash(!showTrash)}>
+          <Text style={styles.trashToggleText}>
+            {showTrash ? '← К записям' : `🗑 Корзина (${trashedRecordings.length})`}
+          </Text>
+        </TouchableOpacity>
       </View>
 
-      {recordings.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>Записей пока нет</Text>
-          <Text style={styles.emptySubtext}>
-            Нажмите кнопку "КОНТАКТ" на главном экране для создания записи
-          </Text>
-        </View>
-      ) : (
+      {showTrash ? (
         <FlatList
-          data={recordings}
+          data={trashedRecordings}
+          ListEmptyComponent={
+            <Text style={styles.searchEmptyText}>Корзина пуста</Text>
+          }
           keyExtractor={(item) => item.id}
-          renderItem={renderRecordingItem}
+          renderItem={renderTrashItem}
           style={styles.list}
           showsVerticalScrollIndicator={false}
         />
+      ) : (
+        <>
+          {sellerCompliance.length > 0 && (
+            <View style={styles.sellerComplianceContainer}>
+              <Text style={styles.complianceTitle}>Выполнение скрипта по продавцам</Text>
+              {sellerCompliance.map(seller => (
+                <Text key={seller.sellerName} style={styles.sellerComplianceText}>
+                  {seller.sellerName}: {Math.round(seller.score * 100)}% ({seller.recordingsCount} зап.)
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.searchContainer}>
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Поиск по тексту, дате, локации, продавцу"
+              autoCapitalize="none"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+          </View>
+
+          {activeRecordings.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>Записей пока нет</Text>
+              <Text style={styles.emptySubtext}>
+                Нажмите кнопку "КОНТАКТ" на главном экране для создания записи
+              </Text>
+            </View>
+          ) : (
+            <FlatList
+              data={filteredRecordings}
+              ListEmptyComponent={
+                <Text style={styles.searchEmptyText}>Ничего не найдено</Text>
+              }
+              keyExtractor={(item) => item.id}
+              renderItem={renderRecordingItem}
+              style={styles.list}
+              showsVerticalScrollIndicator={false}
+            />
+          )}
+        </>
       )}
 
       {/* Модальное окно для показа транскрипции */}
@@ -336,11 +743,34 @@ export default function RecordingsListScreen({ user, onBack }: RecordingsListScr
                 </Text>
               </View>
               
-              <View style={styles.transcriptionTextContainer}>
-                <Text style={styles.transcriptionText}>
-                  {selectedTranscription.transcription}
-                </Text>
-              </View>
+              {selectedTranscription.words && searchTerms.length > 0 && (
+                <View style={styles.timestampsContainer}>
+                  {findMatchingWords(selectedTranscription.words, searchTerms).map((word, index) => (
+                    <TouchableOpacity
+                      key={`${word.startMs}-${index}`}
+                      style={styles.timestampButton}
+                      onPress={() => playRecording(selectedTranscription.recording, word.startMs)}
+                    >
+                      <Text style={styles.timestampText}>
+                        ▶ {formatDuration(word.startMs)} {word.word}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {selectedTranscription.turns && selectedTranscription.turns.length > 0 ? (
+                renderDialogue(selectedTranscription.recording, selectedTranscription.turns)
+              ) : (
+                <View style={styles.transcriptionTextContainer}>
+                  <Text style={styles.transcriptionText}>
+                    {renderHighlightedText(
+                      selectedTranscription.transcription,
+                      findMatches(selectedTranscription.transcription, searchTerms)
+                    )}
+                  </Text>
+                </View>
+              )}
             </ScrollView>
           )}
         </SafeAreaView>
@@ -425,6 +855,12 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 12,
   },
+  recordingWarning: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   recordingActions: {
     flexDirection: 'row',
     gap: 12,
@@ -459,6 +895,9 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: '#FF3B30',
   },
+  restoreButton: {
+    backgroundColor: '#007AFF',
+  },
   actionButtonText: {
     color: 'white',
     fontSize: 14,
@@ -497,6 +936,62 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  trashToggleText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  trashInfo: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginBottom: 8,
+  },
+  searchContainer: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: '#fff',
+  },
+  searchEmptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  searchSnippet: {
+    fontSize: 13,
+    color: '#555',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  highlight: {
+    backgroundColor: '#FFE58F',
+    fontWeight: '600',
+  },
+  timestampsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  timestampButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  timestampText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -570,4 +1065,91 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 60,
   },
+  complianceContainer: {
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  complianceTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  complianceItems: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  complianceItem: {
+    fontSize: 12,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  compliancePassed: {
+    color: '#1E7B34',
+    backgroundColor: '#E5F8EA',
+  },
+  complianceFailed: {
+    color: '#B3261E',
+    backgroundColor: '#FDECEA',
+  },
+  sellerComplianceContainer: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  sellerComplianceText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  talkRatioText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  metricsContainer: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  metricsText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  talkRatioBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  talkRatioSeller: {
+    backgroundColor: '#007AFF',
+  },
+  talkRatioCustomer: {
+    backgroundColor: '#34C759',
+  },
+  turnBubble: {
+    maxWidth: '85%',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 10,
+  },
+  turnSeller: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#E3F0FF',
+  },
+  turnCustomer: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#E5F8EA',
+  },
+  turnMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
 }); 
\ No newline at end of file
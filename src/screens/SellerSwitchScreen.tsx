@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { User } from '../types';
+import { StorageService } from '../services/StorageService';
+import { CredentialService, RosterSeller } from '../services/CredentialService';
+import { apiService } from '../services/ApiService';
+
+interface SellerSwitchScreenProps {
+  user: User;
+  onSwitch: (user: User) => void;
+  onAddSeller: () => void;
+  onClose: () => void;
+}
+
+const PIN_LENGTH = 4;
+
+export default function SellerSwitchScreen({ user, onSwitch, onAddSeller, onClose }: SellerSwitchScreenProps) {
+  const [roster, setRoster] = useState<RosterSeller[]>([]);
+  const [selectedSeller, setSelectedSeller] = useState<RosterSeller | null>(null);
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [newPinRepeat, setNewPinRepeat] = useState('');
+
+  useEffect(() => {
+    loadRoster();
+  }, []);
+
+  const loadRoster = async () => {
+    setRoster(await CredentialService.getRoster());
+  };
+
+  const isCurrentInRoster = roster.some(seller => seller.userId === user.id);
+  const otherSellers = roster.filter(seller => seller.userId !== user.id);
+
+  const handleSavePin = async () => {
+    if (newPin.length !== PIN_LENGTH || !/^\d+$/.test(newPin)) {
+      Alert.alert('Ошибка', `PIN должен состоять из ${PIN_LENGTH} цифр`);
+      return;
+    }
+    if (newPin !== newPinRepeat) {
+      Alert.alert('Ошибка', 'PIN не совпадает');
+      return;
+    }
+
+    await CredentialService.saveRosterSeller({ userId: user.id, username: user.username, role: user.role }, newPin);
+    setNewPin('');
+    setNewPinRepeat('');
+    await loadRoster();
+    Alert.alert('Готово', 'Теперь вы можете возвращаться к работе по PIN без пароля');
+  };
+
+  const handleSwitch = async () => {
+    if (!selectedSeller) return;
+
+    const result = await CredentialService.verifyRosterPin(selectedSeller.userId, pin);
+    setPin('');
+    if (result === 'locked') {
+      setSelectedSeller(null);
+      await loadRoster();
+      Alert.alert('PIN заблокирован', 'Слишком много неверных попыток. Войдите с паролем и задайте PIN заново.');
+      return;
+    }
+    if (result === 'invalid') {
+      Alert.alert('Ошибка', 'Неверный PIN');
+      return;
+    }
+
+    const token = await CredentialService.getRosterToken(selectedSeller.userId);
+    if (!token) {
+      Alert.alert('Требуется вход', 'Сессия продавца истекла. Войдите с паролем.');
+      return;
+    }
+
+    // Токен текущего продавца откладываем, чтобы он мог вернуться по PIN
+    await CredentialService.stashRosterToken(user.id);
+    apiService.setAuthToken(token);
+
+    const nextUser: User = {
+      id: selectedSeller.userId,
+      username: selectedSeller.username,
+      isLoggedIn: true,
+      role: selectedSeller.role,
+    };
+    await StorageService.saveUser(nextUser);
+    onSwitch(nextUser);
+  };
+
+  const handleAddSeller = async () => {
+    if (isCurrentInRoster) {
+      await CredentialService.stashRosterToken(user.id);
+      onAddSeller();
+      return;
+    }
+
+    Alert.alert(
+      'Вход другого продавца',
+      'Вы не задали PIN, поэтому для возврата потребуется войти с паролем. Продолжить?',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        { text: 'Продолжить', onPress: onAddSeller },
+      ]
+    );
+  };
+
+  const handleRemoveSeller = (seller: RosterSeller) => {
+    Alert.alert(
+      'Удалить из списка',
+      `Удалить ${seller.username} из быстрого выбора на этом устройстве?`,
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Удалить',
+          style: 'destructive',
+          onPress: async () => {
+            await CredentialService.removeRosterSeller(seller.userId);
+            if (selectedSeller?.userId === seller.userId) {
+              setSelectedSeller(null);
+            }
+            await loadRoster();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onClose}>
+          <Text style={styles.backButtonText}>← Назад</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Смена продавца</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.currentSeller}>Сейчас работает: {user.username}</Text>
+
+        {!isCurrentInRoster && !user.isOfflineSession && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Быстрый вход по PIN</Text>
+            <Text style={styles.cardText}>
+              Задайте PIN, чтобы возвращаться к работе на этом устройстве без пароля
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={newPin}
+              onChangeText={setNewPin}
+              placeholder="PIN"
+              keyboardType="number-pad"
+              maxLength={PIN_LENGTH}
+              secureTextEntry
+            />
+            <TextInput
+              style={styles.input}
+              value={newPinRepeat}
+              onChangeText={setNewPinRepeat}
+              placeholder="Повторите PIN"
+              keyboardType="number-pad"
+              maxLength={PIN_LENGTH}
+              secureTextEntry
+            />
+            <TouchableOpacity style={styles.primaryButton} onPress={handleSavePin}>
+              <Text style={styles.primaryButtonText}>Сохранить PIN</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Продавцы на этом устройстве</Text>
+          {otherSellers.length === 0 && (
+            <Text style={styles.cardText}>Других продавцов пока нет</Text>
+          )}
+          {otherSellers.map(seller => (
+            <TouchableOpacity
+              key={seller.userId}
+              style={[styles.sellerItem, selectedSeller?.userId === seller.userId && styles.sellerItemSelected]}
+              onPress={() => {
+                setSelectedSeller(seller);
+                setPin('');
+              }}
+              onLongPress={() => handleRemoveSeller(seller)}
+            >
+              <Text style={styles.sellerName}>{seller.username}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {selectedSeller && (
+            <View style={styles.pinContainer}>
+              <TextInput
+                style={styles.input}
+                value={pin}
+                onChangeText={setPin}
+                placeholder={`PIN продавца ${selectedSeller.username}`}
+                keyboardType="number-pad"
+                maxLength={PIN_LENGTH}
+                secureTextEntry
+                autoFocus
+              />
+              <TouchableOpacity
+                style={[styles.primaryButton, pin.length !== PIN_LENGTH && styles.buttonDisabled]}
+                onPress={handleSwitch}
+                disabled={pin.length !== PIN_LENGTH}
+              >
+                <Text style={styles.primaryButtonText}>Переключиться</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleAddSeller}>
+          <Text style={styles.secondaryButtonText}>Другой продавец (вход с паролем)</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>Долгое нажатие на продавца - удалить из списка</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: 'white',
+    padding: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  currentSeller: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 8,
+    gap: 10,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  sellerItem: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  sellerItemSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F0FF',
+  },
+  sellerName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  pinContainer: {
+    gap: 10,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
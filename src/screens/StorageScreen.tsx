@@ -0,0 +1,329 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { User, Recording, Location } from '../types';
+import { StorageService } from '../services/StorageService';
+import { RetentionService, StorageUsage } from '../services/RetentionService';
+import { RecordingUsage } from '../utils/RetentionPolicy';
+import { resolveLocationName } from '../utils/LocationNames';
+import { LOCAL_RETENTION_DAYS } from '../config';
+
+interface StorageScreenProps {
+  user: User;
+  onBack: () => void;
+}
+
+export default function StorageScreen({ user, onBack }: StorageScreenProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [removedCount, setRemovedCount] = useState(0);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [knownLocations, setKnownLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    loadUsage();
+    StorageService.getKnownLocations().then(setKnownLocations);
+  }, []);
+
+  const loadUsage = async () => {
+    try {
+      setUsage(await RetentionService.getUsage());
+      const recordings = await StorageService.getRecordings();
+      setRemovedCount(recordings.filter(r => r.audioRemovedAt).length);
+    } catch (error) {
+      console.error('Ошибка загрузки данных о хранилище:', error);
+    }
+  };
+
+  const handleCleanup = async () => {
+    setIsCleaning(true);
+    try {
+      const result = await RetentionService.applyPolicy();
+      await loadUsage();
+      Alert.alert(
+        'Очистка завершена',
+        result.removedCount > 0
+          ? `Удалено аудио ${result.removedCount} зап., освобождено ${formatBytes(result.freedBytes)}`
+          : 'Нет аудио, которое можно удалить по политике хранения'
+      );
+    } catch (error) {
+      Alert.alert('Ошибка', 'Не удалось освободить место');
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const handleToggleLegalHold = async (recording: Recording, legalHold: boolean) => {
+    await RetentionService.setLegalHold(recording, legalHold);
+    await loadUsage();
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} КБ`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+  };
+
+  const formatDate = (date: Date) => new Date(date).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const getLocationName = (locationId: string) => resolveLocationName(knownLocations, locationId);
+
+  const getStatusText = (recording: Recording) => {
+    if (recording.legalHold) return '⚖️ На удержании';
+    if (!recording.synced) return '⏳ Не загружена';
+    return '✅ Загружена';
+  };
+
+  const renderRecordingItem = ({ item }: { item: RecordingUsage }) => (
+    <View style={styles.recordingItem}>
+      <View style={styles.recordingHeader}>
+        <Text style={styles.recordingTitle}>{formatDate(item.recording.startTime)}</Text>
+        <Text style={styles.recordingSize}>{formatBytes(item.bytes)}</Text>
+      </View>
+      <Text style={styles.recordingMeta}>
+        {getLocationName(item.recording.locationId)} • {item.recording.username || item.recording.userId}
+      </Text>
+      <View style={styles.recordingFooter}>
+        <Text style={styles.recordingStatus}>{getStatusText(item.recording)}</Text>
+        {user.role === 'admin' && (
+          <View style={styles.holdToggle}>
+            <Text style={styles.holdLabel}>Удержание</Text>
+            <Switch
+              value={!!item.recording.legalHold}
+              onValueChange={value => handleToggleLegalHold(item.recording, value)}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+
+  if (!usage) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Подсчёт занятого места...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const usedRatio = Math.min(usage.totalBytes / usage.quotaBytes, 1);
+  const evictableBytes = Math.max(usage.totalBytes - usage.unsyncedBytes - usage.heldBytes, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Назад</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Хранилище</Text>
+      </View>
+
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          Занято {formatBytes(usage.totalBytes)} из {formatBytes(usage.quotaBytes)}
+        </Text>
+        <View style={styles.usageBar}>
+          <View
+            style={[
+              styles.usageFill,
+              { flex: usedRatio || 0.0001 },
+              usedRatio >= 1 && styles.usageFillFull,
+            ]}
+          />
+          <View style={{ flex: 1 - usedRatio }} />
+        </View>
+        <Text style={styles.summaryDetail}>Не загружено на сервер: {formatBytes(usage.unsyncedBytes)}</Text>
+        <Text style={styles.summaryDetail}>На юридическом удержании: {formatBytes(usage.heldBytes)}</Text>
+        <Text style={styles.summaryDetail}>Загружено, можно удалить: {formatBytes(evictableBytes)}</Text>
+        <Text style={styles.summaryDetail}>Только на сервере: {removedCount} зап.</Text>
+        <Text style={styles.policyText}>
+          Аудио загруженных записей хранится на устройстве {LOCAL_RETENTION_DAYS} дн. и при превышении
+          квоты удаляется начиная с самых старых. Записи остаются в списке и воспроизводятся с сервера.
+        </Text>
+        <TouchableOpacity
+          style={[styles.cleanupButton, isCleaning && styles.buttonDisabled]}
+          onPress={handleCleanup}
+          disabled={isCleaning}
+        >
+          {isCleaning ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.cleanupButtonText}>Освободить место</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={usage.recordings}
+        keyExtractor={(item) => item.recording.id}
+        renderItem={renderRecordingItem}
+        ListEmptyComponent={<Text style={styles.emptyText}>На устройстве нет аудио записей</Text>}
+        style={styles.list}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: 'white',
+    padding: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  backButton: {
+    paddingVertical: 8,
+    paddingRight: 16,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summary: {
+    backgroundColor: 'white',
+    padding: 16,
+    marginTop: 8,
+    gap: 6,
+  },
+  summaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  usageBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#e5e5ea',
+    marginVertical: 4,
+  },
+  usageFill: {
+    backgroundColor: '#007AFF',
+  },
+  usageFillFull: {
+    backgroundColor: '#FF3B30',
+  },
+  summaryDetail: {
+    fontSize: 14,
+    color: '#666',
+  },
+  policyText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  cleanupButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  cleanupButtonText: {
+    color: 'white',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  list: {
+    flex: 1,
+    padding: 16,
+  },
+  recordingItem: {
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 4,
+  },
+  recordingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  recordingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  recordingSize: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  recordingMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  recordingFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  recordingStatus: {
+    fontSize: 13,
+    color: '#666',
+  },
+  holdToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  holdLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+});
@@ -1,67 +1,94 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
+import {
+  ApiUser,
+  ApiLocation,
+  ApiRecording,
+  RecordingStats,
+  RecordingUploadData,
+  ShiftUploadData,
+  ApiTranscriptWord,
+  ApiTranscriptSegment,
+  TranscriptionStatus,
+} from '../types';
+import { CredentialService } from './CredentialService';
+import { RECORDING_PROFILES } from '../config/recordingProfiles';
+import { logger } from '../utils/Logger';
+
+// Конфигурация API
+const API_BASE_URL = 'https://contact-recorder-backend-production.up.railway.app';
+// const API_BASE_URL = 'http://10.0.2.2:3000'; // Для локальной разработки (эмулятор Android)
+
+const APP_VERSION = '3.0.0';
+// Обновляем токен заранее, если до истечения осталось меньше этого времени
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Ошибка HTTP запроса к API с кодом ответа сервера
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
 
-// Конфигурация API - будет обновлена после деплоя
-const API_BASE_URL = __DEV__ ? 'http://10.0.2.2:3000' : 'https://your-railway-app.railway.app';
-
-interface ApiResponse<T = any> {
+export interface LoginResponse {
   success: boolean;
   message?: string;
-  data?: T;
-  error?: string;
+  user: ApiUser;
+  token: string;
 }
 
-interface User {
-  id: number;
-  username: string;
-  full_name: string;
-  role: string;
-  email?: string;
-  phone?: string;
-}
-
-interface Location {
-  id: number;
-  name: string;
-  address?: string;
-  city?: string;
-  description?: string;
-  is_active: boolean;
+export interface UploadResponse {
+  success: boolean;
+  message?: string;
+  recording?: ApiRecording;
 }
 
-interface Recording {
-  id: number;
-  filename: string;
-  duration_seconds?: number;
-  file_size: number;
-  location_name?: string;
-  recording_date: string;
-  uploaded_at: string;
-  status: string;
-  has_transcription: boolean;
-  transcribed_at?: string;
+// Транскрипция выполняется на сервере асинхронно: status показывает состояние задания
+export interface TranscriptionResponse {
+  success: boolean;
+  message?: string;
+  status?: TranscriptionStatus;
+  transcription?: string;
+  words?: ApiTranscriptWord[];
+  segments?: ApiTranscriptSegment[];
+  transcribedAt?: string;
+  recording?: ApiRecording;
 }
 
-interface AudioUploadData {
-  uri: string;
-  type: string;
-  name: string;
-  duration_seconds?: number;
-  location_id?: number;
-  recording_date?: string;
-}
+type SessionExpiredListener = () => void;
+type RemoteWipeListener = () => void;
+
+// Заголовок ответа, которым сервер требует стереть данные с устройства (утеря, кража)
+const REMOTE_WIPE_HEADER = 'x-device-wipe';
+
+// Время истечения JWT токена (поле exp) в миллисекундах, null если его нет
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const json = atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '='));
+    const { exp } = JSON.parse(json);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+};
 
 class ApiService {
   private authToken: string | null = null;
+  private tokenLoading: Promise<void>;
+  private refreshPromise: Promise<void> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+  private remoteWipeListeners = new Set<RemoteWipeListener>();
 
   constructor() {
-    this.loadAuthToken();
+    this.tokenLoading = this.loadAuthToken();
   }
 
-  // Инициализация - загружаем токен из хранилища
+  // Инициализация - загружаем токен из защищённого хранилища
   async loadAuthToken(): Promise<void> {
     try {
-      this.authToken = await AsyncStorage.getItem('authToken');
+      this.authToken = await CredentialService.getToken();
     } catch (error) {
       console.error('Ошибка загрузки токена:', error);
     }
@@ -70,43 +97,146 @@ class ApiService {
   // Установка токена авторизации
   setAuthToken(token: string): void {
     this.authToken = token;
-    AsyncStorage.setItem('authToken', token);
+    CredentialService.saveToken(token);
   }
 
   // Очистка токена
   clearAuthToken(): void {
     this.authToken = null;
-    AsyncStorage.removeItem('authToken');
+    CredentialService.removeToken();
+  }
+
+  hasAuthToken(): boolean {
+    return !!this.authToken;
+  }
+
+  // Токен есть и ещё не истёк
+  async hasValidSession(): Promise<boolean> {
+    await this.tokenLoading;
+    if (!this.authToken) return false;
+    const expiresAt = getTokenExpiry(this.authToken);
+    return !expiresAt || expiresAt > Date.now();
+  }
+
+  // Подписка на истечение сессии (401 от сервера или неудачное обновление токена)
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Подписка на команду удалённой очистки устройства
+  onRemoteWipe(listener: RemoteWipeListener): () => void {
+    this.remoteWipeListeners.add(listener);
+    return () => {
+      this.remoteWipeListeners.delete(listener);
+    };
+  }
+
+  private checkRemoteWipe(headerValue: string | null | undefined): void {
+    if (headerValue !== 'true') return;
+    logger.warn('🧹 Сервер запросил удалённую очистку устройства');
+    this.clearAuthToken();
+    this.remoteWipeListeners.forEach(listener => listener());
+  }
+
+  private handleUnauthorized(): void {
+    if (!this.authToken) return;
+    logger.warn('🔒 Сессия истекла, требуется повторный вход');
+    this.clearAuthToken();
+    this.sessionExpiredListeners.forEach(listener => listener());
+  }
+
+  // Проверяем срок действия токена перед запросом и при необходимости обновляем его
+  private async ensureFreshToken(): Promise<void> {
+    await this.tokenLoading;
+    if (!this.authToken) {
+      throw new ApiError('Требуется авторизация', 401);
+    }
+
+    const expiresAt = getTokenExpiry(this.authToken);
+    if (expiresAt && expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshToken();
+    }
+  }
+
+  // Обновление токена. Параллельные запросы ждут одно и то же обновление
+  async refreshToken(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.doRefreshToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async doRefreshToken(): Promise<void> {
+    logger.info('🔑 Обновляем токен авторизации');
+
+    // Сетевые ошибки пробрасываем как есть: сессия не истекла, просто нет связи
+    const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        ...this.getAuthHeaders(),
+      },
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok && data.token) {
+      this.setAuthToken(data.token);
+      logger.info('✅ Токен обновлён');
+      return;
+    }
+
+    if (response.status >= 500) {
+      throw new ApiError(data.message || `HTTP error! status: ${response.status}`, response.status);
+    }
+
+    this.handleUnauthorized();
+    throw new ApiError('Сессия истекла', 401);
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    return this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {};
   }
 
   // Базовый метод для API запросов
-  private async makeRequest<T>(
+  private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    authenticated: boolean = true
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
-    
+
+    if (authenticated) {
+      await this.ensureFreshToken();
+    }
+
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...options.headers as Record<string, string>,
+      Accept: 'application/json',
+      ...this.getAuthHeaders(),
+      ...(options.headers as Record<string, string>),
     };
 
-    if (this.authToken) {
-      headers.Authorization = `Bearer ${this.authToken}`;
-    }
-
     try {
       console.log(`🌐 API запрос: ${options.method || 'GET'} ${url}`);
-      
+
       const response = await fetch(url, {
         ...options,
         headers,
       });
 
-      const data = await response.json();
+      this.checkRemoteWipe(response.headers.get(REMOTE_WIPE_HEADER));
+      const data = await response.json().catch(() => ({}));
 
       if (!response.ok) {
-        throw new Error(data.message || `HTTP error! status: ${response.status}`);
+        if (response.status === 401 && authenticated) {
+          this.handleUnauthorized();
+        }
+        throw new ApiError(data.message || `HTTP error! status: ${response.status}`, response.status);
       }
 
       return data;
@@ -116,189 +246,250 @@ class ApiService {
     }
   }
 
-  // Авторизация
-  async login(username: string, password: string): Promise<{ success: boolean; user?: User; token?: string; message?: string }> {
+  // Разбор ответа FileSystem.uploadAsync по тем же правилам, что и в request
+  private parseUploadResult<T>(response: FileSystem.FileSystemUploadResult): T {
+    const wipeHeader = Object.keys(response.headers).find(name => name.toLowerCase() === REMOTE_WIPE_HEADER);
+    this.checkRemoteWipe(wipeHeader ? response.headers[wipeHeader] : null);
+
+    let body: any = {};
     try {
-      const response = await this.makeRequest<any>('/api/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ username, password }),
-      });
+      body = JSON.parse(response.body);
+    } catch (parseError) {
+      logger.warn('⚠️ Ответ сервера на загрузку файла не JSON');
+    }
 
-      if (response.success && response.token) {
-        this.setAuthToken(response.token);
+    if (response.status < 200 || response.status >= 300) {
+      if (response.status === 401) {
+        this.handleUnauthorized();
       }
+      throw new ApiError(body.message || `HTTP ${response.status}: ${response.body}`, response.status);
+    }
 
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка авторизации'
-      };
+    return { success: true, ...body };
+  }
+
+  // === АВТОРИЗАЦИЯ ===
+
+  async login(username: string, password: string): Promise<LoginResponse> {
+    const response = await this.request<LoginResponse>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    }, false);
+
+    if (response.success && response.token) {
+      this.setAuthToken(response.token);
     }
+
+    return response;
   }
 
-  // Выход
   async logout(): Promise<void> {
     this.clearAuthToken();
+    console.log('🚪 Выход из системы - токен очищен');
   }
 
-  // Получение профиля пользователя
-  async getProfile(): Promise<{ success: boolean; user?: User; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>('/api/auth/me');
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка получения профиля'
-      };
-    }
+  async getProfile(): Promise<{ success: boolean; user: ApiUser }> {
+    return this.request<{ success: boolean; user: ApiUser }>('/api/auth/me');
   }
 
-  // Получение списка локаций
-  async getLocations(): Promise<{ success: boolean; locations?: Location[]; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>('/api/locations');
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка получения локаций'
-      };
+  // === ЛОКАЦИИ ===
+
+  async getLocations(): Promise<{ success: boolean; locations: ApiLocation[] }> {
+    return this.request<{ success: boolean; locations: ApiLocation[] }>('/api/locations');
+  }
+
+  async getLocation(id: number): Promise<{ success: boolean; location: ApiLocation }> {
+    return this.request<{ success: boolean; location: ApiLocation }>(`/api/locations/${id}`);
+  }
+
+  // === ЗАПИСИ ===
+
+  // Загрузка аудио файла. Используем FileSystem.uploadAsync, а не fetch + FormData,
+  // иначе multipart запрос интерпретируется как GraphQL (см. TROUBLESHOOTING.md)
+  async uploadRecording(data: RecordingUploadData): Promise<UploadResponse> {
+    await this.ensureFreshToken();
+
+    const timestamp = Date.now();
+    const randomId = Math.random().toString(36).substring(2, 8);
+    const filename = `recording_${timestamp}_${randomId}.m4a`;
+
+    logger.info('📤 Загружаем аудио файл', {
+      filename,
+      locationId: data.locationId,
+      durationSeconds: data.durationSeconds,
+    });
+
+    const response = await FileSystem.uploadAsync(
+      `${API_BASE_URL}/api/recordings/upload?cb=${timestamp}`,
+      data.uri,
+      {
+        fieldName: 'audio',
+        httpMethod: 'POST',
+        uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+        mimeType: 'audio/m4a',
+        parameters: {
+          duration_seconds: data.durationSeconds.toString(),
+          location_id: data.locationId.toString(),
+          recording_date: data.recordingDate,
+          client_id: data.clientId,
+          filename,
+          metadata: JSON.stringify({
+            app_version: APP_VERSION,
+            platform: Platform.OS,
+            uploaded_from: 'mobile_app',
+            interrupted: !!data.interrupted,
+            pauses: data.pauses || [],
+            contact_id: data.contactId,
+            segment_index: data.segmentIndex,
+            silence_stats: data.silenceStats,
+            trim: data.trim,
+            recording_profile: data.recordingProfile ? RECORDING_PROFILES[data.recordingProfile] : undefined,
+            shift_id: data.shiftId,
+            consent: data.consent
+              ? {
+                  status: data.consent.status,
+                  method: data.consent.method,
+                  confirmed_at: data.consent.confirmedAt,
+                }
+              : undefined,
+          }),
+        },
+        headers: {
+          ...this.getAuthHeaders(),
+          Accept: 'application/json',
+          'User-Agent': `ContactRecorder-Mobile/${APP_VERSION}`,
+          'Cache-Control': 'no-cache, no-store, must-revalidate, max-age=0',
+          'X-Upload-Type': 'audio-file-multipart',
+          'X-Request-ID': `upload_${timestamp}_${randomId}`,
+        },
+      }
+    );
+
+    logger.info('📥 Ответ сервера на загрузку', {
+      status: response.status,
+      body: response.body?.substring(0, 500),
+    });
+
+    const result = this.parseUploadResult<UploadResponse>(response);
+    if (!result.recording?.id) {
+      // Запись загружена, но без id её свяжет со списком на сервере только сверка по client_id
+      logger.warn('⚠️ Сервер не вернул созданную запись', { clientId: data.clientId });
     }
+    return result;
   }
 
-  // Загрузка аудио файла
-  async uploadAudio(audioData: AudioUploadData): Promise<{ success: boolean; recording?: any; message?: string }> {
-    try {
-      const formData = new FormData();
-      
-      // Подготавливаем файл
-      const fileExtension = audioData.name.split('.').pop() || 'm4a';
-      const fileName = `recording_${Date.now()}.${fileExtension}`;
-      
-      formData.append('audio', {
-        uri: audioData.uri,
-        type: audioData.type || 'audio/m4a',
-        name: fileName,
-      } as any);
-
-      // Добавляем метаданные
-      if (audioData.duration_seconds) {
-        formData.append('duration_seconds', audioData.duration_seconds.toString());
+  async getRecordings(limit: number = 50, offset: number = 0): Promise<{ success: boolean; recordings: ApiRecording[]; total?: number }> {
+    return this.request<{ success: boolean; recordings: ApiRecording[]; total?: number }>(
+      `/api/recordings?limit=${limit}&offset=${offset}`
+    );
+  }
+
+  // Список записей целиком, страница за страницей. shouldStop позволяет закончить раньше,
+  // когда следующие страницы уже не нужны (список отсортирован от новых к старым)
+  async getAllRecordings(
+    pageSize: number,
+    shouldStop?: (page: ApiRecording[]) => boolean
+  ): Promise<{ success: boolean; recordings: ApiRecording[]; total?: number; complete: boolean }> {
+    const recordings: ApiRecording[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const response = await this.getRecordings(pageSize, offset);
+      if (!response.success) {
+        return { success: false, recordings, total: response.total, complete: false };
       }
-      
-      if (audioData.location_id) {
-        formData.append('location_id', audioData.location_id.toString());
+      recordings.push(...response.recordings);
+
+      const lastPage = response.recordings.length < pageSize
+        || (response.total !== undefined && offset + pageSize >= response.total);
+      if (lastPage) {
+        return { success: true, recordings, total: response.total, complete: true };
       }
-      
-      if (audioData.recording_date) {
-        formData.append('recording_date', audioData.recording_date);
+      if (shouldStop?.(response.recordings)) {
+        return { success: true, recordings, total: response.total, complete: false };
       }
+    }
+  }
 
-      // Добавляем дополнительные метаданные
-      const metadata = {
-        app_version: '3.0.0',
-        platform: Platform.OS,
-        uploaded_from: 'mobile_app'
-      };
-      formData.append('metadata', JSON.stringify(metadata));
-
-      const url = `${API_BASE_URL}/api/recordings/upload`;
-      
-      const headers: Record<string, string> = {
-        'Content-Type': 'multipart/form-data',
-      };
-
-      if (this.authToken) {
-        headers.Authorization = `Bearer ${this.authToken}`;
-      }
+  async getRecording(id: number): Promise<{ success: boolean; recording: ApiRecording }> {
+    return this.request<{ success: boolean; recording: ApiRecording }>(`/api/recordings/${id}`);
+  }
 
-      console.log('📤 Загружаем аудио файл:', fileName);
-      console.log('📊 Размер:', audioData.name);
-      console.log('📍 Локация:', audioData.location_id);
+  // Аудио записи на сервере для потокового воспроизведения (на устройстве его уже нет)
+  async getRecordingAudioSource(id: number): Promise<{ uri: string; headers: Record<string, string> }> {
+    await this.ensureFreshToken();
+    return {
+      uri: `${API_BASE_URL}/api/recordings/${id}/audio`,
+      headers: this.getAuthHeaders(),
+    };
+  }
 
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: formData,
-      });
+  async getRecordingStats(): Promise<{ success: boolean; stats: RecordingStats }> {
+    return this.request<{ success: boolean; stats: RecordingStats }>('/api/recordings/stats');
+  }
 
-      const data = await response.json();
+  async deleteRecording(id: number): Promise<{ success: boolean; message: string }> {
+    return this.request<{ success: boolean; message: string }>(`/api/recordings/${id}`, {
+      method: 'DELETE',
+    });
+  }
 
-      if (!response.ok) {
-        throw new Error(data.message || `HTTP error! status: ${response.status}`);
-      }
+  // === СМЕНЫ ===
+
+  // Итоги завершённой смены. client_id - id смены на устройстве, им же помечены записи
+  async uploadShift(data: ShiftUploadData): Promise<{ success: boolean; shift?: { id: number } }> {
+    return this.request<{ success: boolean; shift?: { id: number } }>('/api/shifts', {
+      method: 'POST',
+      body: JSON.stringify({
+        client_id: data.clientId,
+        location_id: data.locationId,
+        started_at: data.startedAt,
+        ended_at: data.endedAt,
+        contacts_count: data.contactsCount,
+        recordings_count: data.recordingsCount,
+        total_talk_seconds: data.totalTalkSeconds,
+        unsynced_count: data.unsyncedCount,
+      }),
+    });
+  }
 
-      console.log('✅ Аудио файл загружен успешно');
-      return data;
+  // === ТРАНСКРИПЦИЯ ===
 
-    } catch (error) {
-      console.error('❌ Ошибка загрузки аудио:', error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка загрузки аудио файла'
-      };
-    }
+  // Запуск транскрипции уже загруженной записи по её id на сервере
+  async transcribeRecording(id: number): Promise<TranscriptionResponse> {
+    return this.request<TranscriptionResponse>(`/api/recordings/${id}/transcribe`, {
+      method: 'POST',
+    });
   }
 
-  // Получение списка записей пользователя
-  async getRecordings(limit: number = 50, offset: number = 0): Promise<{ success: boolean; recordings?: Recording[]; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>(`/api/recordings?limit=${limit}&offset=${offset}`);
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка получения записей'
-      };
-    }
+  // Запуск транскрипции с передачей аудио файла, если на сервере его нет
+  async transcribeRecordingWithAudio(id: number, uri: string): Promise<TranscriptionResponse> {
+    await this.ensureFreshToken();
+
+    const response = await FileSystem.uploadAsync(`${API_BASE_URL}/api/recordings/${id}/transcribe`, uri, {
+      fieldName: 'audio',
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      mimeType: 'audio/m4a',
+      headers: {
+        ...this.getAuthHeaders(),
+        Accept: 'application/json',
+      },
+    });
+
+    return this.parseUploadResult<TranscriptionResponse>(response);
   }
 
-  // Получение статистики записей
-  async getStats(): Promise<{ success: boolean; stats?: any; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>('/api/recordings/stats');
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка получения статистики'
-      };
-    }
+  async getTranscription(id: number): Promise<TranscriptionResponse> {
+    return this.request<TranscriptionResponse>(`/api/recordings/${id}/transcription`);
   }
 
-  // Получение конкретной записи
-  async getRecording(id: number): Promise<{ success: boolean; recording?: any; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>(`/api/recordings/${id}`);
-      return response;
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Ошибка получения записи'
-      };
-    }
-  }
+  // === СЛУЖЕБНОЕ ===
 
-  // Проверка состояния сервера
-  async checkServerHealth(): Promise<{ success: boolean; status?: string; message?: string }> {
-    try {
-      const response = await this.makeRequest<any>('/health');
-      return {
-        success: true,
-        status: response.status,
-        message: 'Сервер работает'
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Сервер недоступен'
-      };
-    }
+  // Проверка состояния сервера, бросает ошибку если сервер недоступен
+  async checkServerHealth(): Promise<{ status?: string }> {
+    return this.request<{ status?: string }>('/health', {}, false);
   }
 }
 
 // Экспортируем единственный экземпляр
 export const apiService = new ApiService();
-export default apiService; 
\ No newline at end of file
+export default apiService;
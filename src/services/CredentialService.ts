@@ -0,0 +1,241 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { UserRole } from '../types';
+
+// Данные для проверки пароля при входе без сети. Сам пароль не хранится
+interface OfflineVerifier {
+  userId: string;
+  salt: string;
+  hash: string;
+  iterations: number;
+  lastOnlineLoginAt: string;
+}
+
+// Продавец в списке быстрого переключения на общем устройстве магазина
+export interface RosterSeller {
+  userId: string;
+  username: string;
+  role?: UserRole;
+}
+
+interface RosterEntry extends RosterSeller {
+  salt: string;
+  pinHash: string;
+  iterations: number;
+  // Неверные PIN подряд. Хранятся вместе с PIN, чтобы счётчик не сбрасывался при выходе с экрана
+  failedAttempts?: number;
+}
+
+// locked - PIN заблокирован после MAX_PIN_ATTEMPTS неверных попыток, продавец удалён из списка
+export type PinCheckResult = 'valid' | 'invalid' | 'locked';
+
+const VERIFIER_ITERATIONS = 1000;
+// После стольких неверных PIN подряд продавец входит с паролем
+const MAX_PIN_ATTEMPTS = 5;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export class CredentialService {
+  private static readonly TOKEN_KEY = 'auth_token';
+  private static readonly VERIFIERS_KEY = 'offline_verifiers';
+  private static readonly STORAGE_KEY_KEY = 'storage_encryption_key';
+  private static readonly ROSTER_KEY = 'seller_roster';
+  private static readonly ROSTER_TOKEN_PREFIX = 'seller_token_';
+
+  // Токен авторизации
+  static async saveToken(token: string): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(this.TOKEN_KEY, token);
+    } catch (error) {
+      console.error('Ошибка при сохранении токена:', error);
+    }
+  }
+
+  static async getToken(): Promise<string | null> {
+    try {
+      return await SecureStore.getItemAsync(this.TOKEN_KEY);
+    } catch (error) {
+      console.error('Ошибка при получении токена:', error);
+      return null;
+    }
+  }
+
+  static async removeToken(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.TOKEN_KEY);
+    } catch (error) {
+      console.error('Ошибка при удалении токена:', error);
+    }
+  }
+
+  // Ключ шифрования локального хранилища (база записей и аудио).
+  // Создаётся при первом обращении; без него сохранённые данные не прочитать
+  static async getStorageKey(): Promise<string> {
+    const existingKey = await SecureStore.getItemAsync(this.STORAGE_KEY_KEY);
+    if (existingKey) return existingKey;
+
+    const key = toHex(Crypto.getRandomBytes(32));
+    await SecureStore.setItemAsync(this.STORAGE_KEY_KEY, key);
+    return key;
+  }
+
+  static async removeStorageKey(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.STORAGE_KEY_KEY);
+    } catch (error) {
+      console.error('Ошибка при удалении ключа шифрования:', error);
+    }
+  }
+
+  // Верификаторы для офлайн входа
+  static async saveOfflineVerifier(username: string, password: string, userId: string): Promise<void> {
+    try {
+      const salt = toHex(Crypto.getRandomBytes(16));
+      const hash = await this.deriveHash(password, salt, VERIFIER_ITERATIONS);
+      const verifiers = await this.getVerifiers();
+      verifiers[username] = {
+        userId,
+        salt,
+        hash,
+        iterations: VERIFIER_ITERATIONS,
+        lastOnlineLoginAt: new Date().toISOString(),
+      };
+      await SecureStore.setItemAsync(this.VERIFIERS_KEY, JSON.stringify(verifiers));
+    } catch (error) {
+      console.error('Ошибка при сохранении верификатора:', error);
+    }
+  }
+
+  // Проверка пароля без сети. Возвращает id пользователя и время последнего входа онлайн
+  static async verifyOfflinePassword(
+    username: string,
+    password: string
+  ): Promise<{ userId: string; lastOnlineLoginAt: string } | null> {
+    const verifier = (await this.getVerifiers())[username];
+    if (!verifier) return null;
+
+    const hash = await this.deriveHash(password, verifier.salt, verifier.iterations);
+    if (hash !== verifier.hash) return null;
+    return { userId: verifier.userId, lastOnlineLoginAt: verifier.lastOnlineLoginAt };
+  }
+
+  static async clearOfflineVerifiers(): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.VERIFIERS_KEY);
+    } catch (error) {
+      console.error('Ошибка при удалении верификаторов:', error);
+    }
+  }
+
+  // Список быстрого переключения: PIN хранится как хэш, токен каждого продавца -
+  // отдельной записью, пока активен другой продавец
+  static async saveRosterSeller(seller: RosterSeller, pin: string): Promise<void> {
+    try {
+      const salt = toHex(Crypto.getRandomBytes(16));
+      const pinHash = await this.deriveHash(pin, salt, VERIFIER_ITERATIONS);
+      const roster = await this.getRosterEntries();
+      roster[seller.userId] = { ...seller, salt, pinHash, iterations: VERIFIER_ITERATIONS };
+      await SecureStore.setItemAsync(this.ROSTER_KEY, JSON.stringify(roster));
+    } catch (error) {
+      console.error('Ошибка при сохранении продавца в списке:', error);
+    }
+  }
+
+  static async getRoster(): Promise<RosterSeller[]> {
+    const roster = await this.getRosterEntries();
+    return Object.values(roster).map(({ userId, username, role }) => ({ userId, username, role }));
+  }
+
+  static async verifyRosterPin(userId: string, pin: string): Promise<PinCheckResult> {
+    const roster = await this.getRosterEntries();
+    const entry = roster[userId];
+    if (!entry) return 'invalid';
+
+    const valid = (await this.deriveHash(pin, entry.salt, entry.iterations)) === entry.pinHash;
+    const failedAttempts = valid ? 0 : (entry.failedAttempts || 0) + 1;
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      await this.removeRosterSeller(userId);
+      return 'locked';
+    }
+
+    if (failedAttempts !== (entry.failedAttempts || 0)) {
+      roster[userId] = { ...entry, failedAttempts };
+      await SecureStore.setItemAsync(this.ROSTER_KEY, JSON.stringify(roster));
+    }
+    return valid ? 'valid' : 'invalid';
+  }
+
+  // Токен уходящего продавца откладывается, чтобы вернуться к нему по PIN без пароля
+  static async stashRosterToken(userId: string): Promise<void> {
+    try {
+      const roster = await this.getRosterEntries();
+      const token = await this.getToken();
+      if (!roster[userId] || !token) return;
+      await SecureStore.setItemAsync(`${this.ROSTER_TOKEN_PREFIX}${userId}`, token);
+    } catch (error) {
+      console.error('Ошибка при сохранении токена продавца:', error);
+    }
+  }
+
+  static async getRosterToken(userId: string): Promise<string | null> {
+    try {
+      return await SecureStore.getItemAsync(`${this.ROSTER_TOKEN_PREFIX}${userId}`);
+    } catch (error) {
+      console.error('Ошибка при получении токена продавца:', error);
+      return null;
+    }
+  }
+
+  static async removeRosterSeller(userId: string): Promise<void> {
+    try {
+      const roster = await this.getRosterEntries();
+      delete roster[userId];
+      await SecureStore.setItemAsync(this.ROSTER_KEY, JSON.stringify(roster));
+      await SecureStore.deleteItemAsync(`${this.ROSTER_TOKEN_PREFIX}${userId}`);
+    } catch (error) {
+      console.error('Ошибка при удалении продавца из списка:', error);
+    }
+  }
+
+  static async clearRoster(): Promise<void> {
+    const roster = await this.getRosterEntries();
+    for (const userId of Object.keys(roster)) {
+      await this.removeRosterSeller(userId);
+    }
+    try {
+      await SecureStore.deleteItemAsync(this.ROSTER_KEY);
+    } catch (error) {
+      console.error('Ошибка при очистке списка продавцов:', error);
+    }
+  }
+
+  private static async getRosterEntries(): Promise<Record<string, RosterEntry>> {
+    try {
+      const data = await SecureStore.getItemAsync(this.ROSTER_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Ошибка при получении списка продавцов:', error);
+      return {};
+    }
+  }
+
+  private static async getVerifiers(): Promise<Record<string, OfflineVerifier>> {
+    try {
+      const data = await SecureStore.getItemAsync(this.VERIFIERS_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Ошибка при получении верификаторов:', error);
+      return {};
+    }
+  }
+
+  // Итерированный SHA-256 от соли и пароля
+  private static async deriveHash(password: string, salt: string, iterations: number): Promise<string> {
+    let hash = `${salt}:${password}`;
+    for (let i = 0; i < iterations; i++) {
+      hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}${hash}`);
+    }
+    return hash;
+  }
+}
@@ -0,0 +1,262 @@
+import * as SQLite from 'expo-sqlite';
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { File } from 'expo-file-system/next';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recording, Shift } from '../types';
+import { CredentialService } from './CredentialService';
+import { encryptedAudioDirectory, encryptFile, generateFileKey } from '../utils/FileEncryption';
+
+// Миграция схемы базы данных. Версия хранится в PRAGMA user_version.
+// cleanup выполняется после фиксации транзакции (например, удаление перенесённых файлов)
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+  cleanup?: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+// Строка таблицы recordings: индексируемые поля отдельными колонками,
+// полная запись - JSON в колонке data
+export interface RecordingRow {
+  id: string;
+  user_id: string;
+  location_id: string;
+  start_time: string;
+  synced: number;
+  server_id: number | null;
+  data: string;
+}
+
+export interface ShiftRow {
+  id: string;
+  user_id: string;
+  location_id: string;
+  started_at: string;
+  ended_at: string | null;
+  synced: number;
+  data: string;
+}
+
+// База зашифрована SQLCipher (см. плагин expo-sqlite в app.json), ключ - в SecureStore
+const DATABASE_NAME = 'contact_recorder_secure.db';
+const LEGACY_DATABASE_NAME = 'contact_recorder.db';
+const LEGACY_RECORDINGS_KEY = 'recordings';
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_recordings',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS recordings (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          location_id TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          synced INTEGER NOT NULL DEFAULT 0,
+          server_id INTEGER,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_recordings_start_time ON recordings (start_time);
+        CREATE INDEX IF NOT EXISTS idx_recordings_synced ON recordings (synced);
+        CREATE INDEX IF NOT EXISTS idx_recordings_user_id ON recordings (user_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'import_async_storage_recordings',
+    up: async (db) => {
+      const legacyData = await AsyncStorage.getItem(LEGACY_RECORDINGS_KEY);
+      if (!legacyData) return;
+
+      const legacyRecordings: Recording[] = JSON.parse(legacyData);
+      for (const recording of legacyRecordings) {
+        await DatabaseService.upsertRecording(db, deserializeRecording(JSON.stringify(recording)));
+      }
+      await AsyncStorage.removeItem(LEGACY_RECORDINGS_KEY);
+      console.log(`📦 Импортировано записей из AsyncStorage: ${legacyRecordings.length}`);
+    },
+  },
+  {
+    version: 3,
+    name: 'encrypt_audio_files',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS audio_keys (
+          path TEXT PRIMARY KEY NOT NULL,
+          file_name TEXT NOT NULL,
+          key TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at TEXT NOT NULL
+        );
+      `);
+
+      // Файлы, записанные версиями до шифрования, шифруются блоками на диске
+      const rows = await db.getAllAsync<RecordingRow>('SELECT * FROM recordings');
+      let encrypted = 0;
+      for (const row of rows) {
+        const { audioFilePath } = deserializeRecording(row.data);
+        if (!audioFilePath) continue;
+        const source = new File(audioFilePath);
+        if (!source.exists) continue;
+
+        const fileName = `${Crypto.randomUUID()}.enc`;
+        const key = generateFileKey();
+        const size = await encryptFile(source, new File(encryptedAudioDirectory(), fileName), key);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO audio_keys (path, file_name, key, size, created_at) VALUES (?, ?, ?, ?, ?)',
+          audioFilePath,
+          fileName,
+          key,
+          size,
+          new Date().toISOString()
+        );
+        encrypted++;
+      }
+      console.log(`🔐 Аудио зашифровано: ${encrypted}`);
+    },
+    // Открытые файлы удаляются только после фиксации ключей
+    cleanup: async (db) => {
+      const files = await db.getAllAsync<{ path: string }>('SELECT path FROM audio_keys');
+      for (const file of files) {
+        await FileSystem.deleteAsync(file.path, { idempotent: true });
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'create_shifts',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS shifts (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          location_id TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          synced INTEGER NOT NULL DEFAULT 0,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_shifts_user_id ON shifts (user_id);
+      `);
+    },
+  },
+];
+
+// Даты в JSON хранятся строками ISO - восстанавливаем их в Date
+export const deserializeRecording = (data: string): Recording => {
+  const recording = JSON.parse(data);
+  return {
+    ...recording,
+    startTime: new Date(recording.startTime),
+    endTime: recording.endTime ? new Date(recording.endTime) : undefined,
+  };
+};
+
+export class DatabaseService {
+  private static databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  // Открываем базу один раз и применяем недостающие миграции
+  static getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = this.openDatabase().catch((error) => {
+        this.databasePromise = null;
+        throw error;
+      });
+    }
+    return this.databasePromise;
+  }
+
+  private static async openDatabase(): Promise<SQLite.SQLiteDatabase> {
+    const key = await CredentialService.getStorageKey();
+    await this.encryptLegacyDatabase(key);
+
+    const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    // Ключ должен быть задан до любого другого запроса
+    await db.execAsync(`PRAGMA key = "x'${key}'";`);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+    await this.runMigrations(db);
+    return db;
+  }
+
+  // Версии до шифрования хранили базу открытым текстом: переносим её в зашифрованную
+  private static async encryptLegacyDatabase(key: string): Promise<void> {
+    const legacyInfo = await FileSystem.getInfoAsync(`${FileSystem.documentDirectory}SQLite/${LEGACY_DATABASE_NAME}`);
+    if (!legacyInfo.exists) return;
+
+    // Остаток прерванного переноса: начинаем заново
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME).catch(() => undefined);
+
+    const legacyDb = await SQLite.openDatabaseAsync(LEGACY_DATABASE_NAME);
+    const result = await legacyDb.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const targetPath = `${String(SQLite.defaultDatabaseDirectory).replace('file://', '')}/${DATABASE_NAME}`;
+
+    await legacyDb.execAsync(`
+      ATTACH DATABASE '${targetPath}' AS encrypted KEY "x'${key}'";
+      SELECT sqlcipher_export('encrypted');
+      PRAGMA encrypted.user_version = ${result?.user_version ?? 0};
+      DETACH DATABASE encrypted;
+    `);
+    await legacyDb.closeAsync();
+    await SQLite.deleteDatabaseAsync(LEGACY_DATABASE_NAME);
+    console.log('🔐 База записей зашифрована');
+  }
+
+  // Удаление базы вместе с данными (выход со стиранием данных, удалённая очистка)
+  static async deleteDatabase(): Promise<void> {
+    if (this.databasePromise) {
+      const db = await this.databasePromise.catch(() => null);
+      this.databasePromise = null;
+      await db?.closeAsync();
+    }
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME).catch((error) => {
+      console.error('Ошибка при удалении базы данных:', error);
+    });
+  }
+
+  private static async runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+    const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const currentVersion = result?.user_version ?? 0;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= currentVersion) continue;
+
+      console.log(`🗄️ Миграция базы данных ${migration.version}: ${migration.name}`);
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+      await migration.cleanup?.(db);
+    }
+  }
+
+  static async upsertShift(db: SQLite.SQLiteDatabase, shift: Shift): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO shifts (id, user_id, location_id, started_at, ended_at, synced, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      shift.id,
+      shift.userId,
+      shift.locationId,
+      shift.startedAt,
+      shift.endedAt ?? null,
+      shift.synced ? 1 : 0,
+      JSON.stringify(shift)
+    );
+  }
+
+  static async upsertRecording(db: SQLite.SQLiteDatabase, recording: Recording): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO recordings (id, user_id, location_id, start_time, synced, server_id, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      recording.id,
+      recording.userId,
+      recording.locationId,
+      new Date(recording.startTime).toISOString(),
+      recording.synced ? 1 : 0,
+      recording.serverId ?? null,
+      JSON.stringify(recording)
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { DeletionScope, Recording, User } from '../types';
+import { StorageService } from './StorageService';
+import { SecureFileService } from './SecureFileService';
+import { apiService, ApiError } from './ApiService';
+import { syncService } from './SyncService';
+import { canDeleteEverywhere, canDeleteLocally } from '../utils/RecordingPermissions';
+import { logger } from '../utils/Logger';
+import { TRASH_RETENTION_DAYS } from '../config';
+
+export interface DeletionResult {
+  // Удаление на сервере ждёт сети и выполнится при синхронизации
+  queued: boolean;
+}
+
+export const isInTrash = (recording: Recording): boolean => !!recording.deletedAt;
+
+// Удаление записей в два шага: сначала в корзину (с возможностью восстановления),
+// затем окончательное стирание с устройства (вместе с аудио) и, при scope 'everywhere', с сервера
+export class DeletionService {
+  static async moveToTrash(user: User, recording: Recording, scope: DeletionScope): Promise<Recording> {
+    const allowed = scope === 'everywhere'
+      ? canDeleteEverywhere(user, recording)
+      : canDeleteLocally(user, recording);
+    if (!allowed) {
+      throw new Error('Недостаточно прав для удаления записи');
+    }
+
+    const updates: Partial<Recording> = {
+      deletedAt: new Date().toISOString(),
+      deletedBy: user.id,
+      deletionScope: scope,
+    };
+    await StorageService.updateRecording(recording.id, updates);
+    logger.info('🗑️ Запись перемещена в корзину', { id: recording.id, scope });
+    return { ...recording, ...updates };
+  }
+
+  static async restore(recording: Recording): Promise<Recording> {
+    const updates: Partial<Recording> = {
+      deletedAt: undefined,
+      deletedBy: undefined,
+      deletionScope: undefined,
+    };
+    await StorageService.updateRecording(recording.id, updates);
+    logger.info('♻️ Запись восстановлена из корзины', { id: recording.id });
+    return { ...recording, ...updates };
+  }
+
+  // Незагруженная запись стирается только с явного подтверждения - иначе контакт будет потерян
+  static async purge(recording: Recording, confirmed: boolean = false): Promise<DeletionResult> {
+    if (recording.legalHold) {
+      throw new Error('Запись на юридическом удержании');
+    }
+    if (!recording.synced && !confirmed) {
+      throw new Error('Запись ещё не загружена на сервер');
+    }
+
+    const scope = recording.deletionScope || 'local';
+    let queued = false;
+    if (scope === 'everywhere' && recording.serverId) {
+      queued = !(await this.tryDeleteOnServer(recording.serverId));
+    }
+
+    // Загруженная запись помечается удалённой, чтобы сверка не вернула её с сервера
+    if (recording.serverId) {
+      await StorageService.addServerDeletion({
+        serverId: recording.serverId,
+        userId: recording.deletedBy || recording.userId,
+        scope: queued ? 'everywhere' : 'local',
+        requestedAt: new Date().toISOString(),
+      });
+    }
+
+    if (recording.audioFilePath) {
+      await SecureFileService.removeFile(recording.audioFilePath);
+    }
+    await StorageService.removeRecording(recording.id);
+
+    if (queued) {
+      syncService.schedule();
+    }
+    logger.info('🗑️ Запись удалена окончательно', { id: recording.id, scope, queued });
+    return { queued };
+  }
+
+  // Очистка корзины по сроку. Незагруженные записи ждут загрузки, а удаление с сервера
+  // выполняется только с токеном того, кто удалил запись
+  static async purgeExpired(userId: string): Promise<number> {
+    const expiresBefore = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const expired = (await StorageService.getRecordings()).filter(r =>
+      r.deletedAt
+      && new Date(r.deletedAt).getTime() < expiresBefore
+      && r.synced
+      && !r.legalHold
+      && (r.deletionScope !== 'everywhere' || r.deletedBy === userId)
+    );
+
+    let purged = 0;
+    for (const recording of expired) {
+      try {
+        await this.purge(recording);
+        purged++;
+      } catch (error) {
+        logger.warn('⚠️ Не удалось очистить запись из корзины', {
+          id: recording.id,
+          message: (error as Error).message,
+        });
+      }
+    }
+    return purged;
+  }
+
+  // true - запись удалена на сервере (или её там уже нет), false - сервер недоступен.
+  // Отказ в правах пробрасывается: локальную копию в этом случае не трогаем
+  static async tryDeleteOnServer(serverId: number): Promise<boolean> {
+    if (!apiService.hasAuthToken()) return false;
+
+    try {
+      await apiService.deleteRecording(serverId);
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return true;
+      }
+      if (error instanceof ApiError && error.status === 403) {
+        throw new Error('Сервер запретил удаление записи');
+      }
+      logger.warn('⚠️ Удаление на сервере отложено', { serverId, message: (error as Error).message });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Recording } from '../types';
+import { StorageService } from './StorageService';
+import { apiService } from './ApiService';
+import { planReconciliation } from '../utils/Reconciliation';
+import { logger } from '../utils/Logger';
+
+// Размер страницы при загрузке списка записей с сервера
+const RECONCILE_PAGE_SIZE = 200;
+
+export interface ReconciliationResult {
+  recordings: Recording[];
+  // Всего записей на сервере (по ответу сервера) или null, если сервер недоступен
+  serverTotal: number | null;
+}
+
+// Сверка записей на устройстве со списком на сервере (правила - в utils/Reconciliation).
+// Записи с других устройств сохраняются как метаданные и убираются, когда их нет на сервере
+export class ReconciliationService {
+  static async reconcile(): Promise<ReconciliationResult> {
+    let response: Awaited<ReturnType<typeof apiService.getAllRecordings>>;
+    try {
+      response = await apiService.getAllRecordings(RECONCILE_PAGE_SIZE);
+    } catch (error) {
+      console.log('Не удалось загрузить записи с сервера:', error);
+      return { recordings: await StorageService.getRecordings(), serverTotal: null };
+    }
+
+    if (!response.success) {
+      return { recordings: await StorageService.getRecordings(), serverTotal: null };
+    }
+
+    const deletedServerIds = new Set((await StorageService.getServerDeletions()).map(d => d.serverId));
+    const plan = planReconciliation(
+      await StorageService.getRecordings(),
+      response.recordings,
+      deletedServerIds,
+      response.complete
+    );
+
+    for (const recording of plan.added) {
+      await StorageService.saveRecording(recording);
+    }
+    for (const { id, updates } of plan.linked) {
+      await StorageService.updateRecording(id, updates);
+    }
+    for (const { id, serverStatus } of plan.statusUpdates) {
+      await StorageService.updateRecording(id, { serverStatus });
+    }
+    for (const id of plan.removed) {
+      await StorageService.removeRecording(id);
+    }
+    for (const serverId of plan.staleDeletions) {
+      await StorageService.removeServerDeletion(serverId);
+    }
+
+    if (plan.added.length > 0 || plan.linked.length > 0 || plan.removed.length > 0) {
+      logger.info('🔗 Записи сверены с сервером', {
+        linked: plan.linked.length,
+        added: plan.added.length,
+        removed: plan.removed.length,
+      });
+    }
+
+    return {
+      recordings: await StorageService.getRecordings(),
+      serverTotal: response.total ?? response.recordings.length,
+    };
+  }
+}
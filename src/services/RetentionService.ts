@@ -0,0 +1,79 @@
+import { Recording } from '../types';
+import { StorageService } from './StorageService';
+import { SecureFileService } from './SecureFileService';
+import { hasLocalAudio, RecordingUsage, selectForEviction } from '../utils/RetentionPolicy';
+import { logger } from '../utils/Logger';
+import { LOCAL_RETENTION_DAYS, STORAGE_QUOTA_MB } from '../config';
+
+export interface StorageUsage {
+  totalBytes: number;
+  quotaBytes: number;
+  // Аудио, которое нельзя удалить: не загружено на сервер или на юридическом удержании
+  unsyncedBytes: number;
+  heldBytes: number;
+  // Записи с аудио на устройстве, от новых к старым
+  recordings: RecordingUsage[];
+}
+
+export interface RetentionResult {
+  removedCount: number;
+  freedBytes: number;
+}
+
+// Политика хранения аудио на устройстве: срок хранения загруженных записей и квота
+export class RetentionService {
+  static async getUsage(): Promise<StorageUsage> {
+    // Размеры зашифрованных файлов на диске
+    const sizes = await SecureFileService.getStoredSizes();
+    const recordings = (await StorageService.getRecordings())
+      .filter(hasLocalAudio)
+      .map(recording => ({ recording, bytes: sizes[recording.audioFilePath] || 0 }));
+
+    const sum = (items: RecordingUsage[]) => items.reduce((total, item) => total + item.bytes, 0);
+    return {
+      // Аудио без записи (например, после сбоя) тоже занимает место
+      totalBytes: Object.values(sizes).reduce((total, bytes) => total + bytes, 0),
+      quotaBytes: STORAGE_QUOTA_MB * 1024 * 1024,
+      unsyncedBytes: sum(recordings.filter(item => !item.recording.synced)),
+      heldBytes: sum(recordings.filter(item => item.recording.legalHold)),
+      recordings,
+    };
+  }
+
+  static async applyPolicy(): Promise<RetentionResult> {
+    // Файлы, оставшиеся без записи после сбоя, удаляются до подсчёта, чтобы квота считалась по факту
+    await SecureFileService.compact();
+    const usage = await this.getUsage();
+
+    const result: RetentionResult = { removedCount: 0, freedBytes: 0 };
+    const selected = selectForEviction(usage.recordings, usage.totalBytes, usage.quotaBytes, LOCAL_RETENTION_DAYS);
+    for (const item of selected) {
+      await this.removeLocalAudio(item.recording);
+      result.removedCount++;
+      result.freedBytes += item.bytes;
+    }
+
+    const totalBytes = usage.totalBytes - result.freedBytes;
+    if (totalBytes > usage.quotaBytes) {
+      logger.warn('⚠️ Квота хранилища превышена, удалить можно только незагруженные записи', {
+        totalBytes,
+        quotaBytes: usage.quotaBytes,
+      });
+    }
+
+    if (result.removedCount > 0) {
+      logger.info('🧹 Аудио удалено с устройства по политике хранения', { ...result });
+    }
+    return result;
+  }
+
+  static async removeLocalAudio(recording: Recording): Promise<void> {
+    await SecureFileService.removeFile(recording.audioFilePath);
+    await StorageService.updateRecording(recording.id, { audioRemovedAt: new Date().toISOString() });
+  }
+
+  static async setLegalHold(recording: Recording, legalHold: boolean): Promise<void> {
+    await StorageService.updateRecording(recording.id, { legalHold: legalHold || undefined });
+    logger.info(legalHold ? '⚖️ Запись на юридическом удержании' : '⚖️ Удержание записи снято', { id: recording.id });
+  }
+}
@@ -0,0 +1,156 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { File } from 'expo-file-system/next';
+import { DatabaseService } from './DatabaseService';
+import { CredentialService } from './CredentialService';
+import { decryptFile, encryptFile, encryptedAudioDirectory, generateFileKey } from '../utils/FileEncryption';
+
+// Расшифрованные копии живут только на время воспроизведения или загрузки
+const DECRYPTED_DIR = `${FileSystem.cacheDirectory}decrypted/`;
+const RECORDINGS_DIR = `${FileSystem.documentDirectory}recordings/`;
+
+interface AudioKeyRow {
+  path: string;
+  file_name: string;
+  key: string;
+  size: number;
+}
+
+// Аудио записей хранится зашифрованными файлами (см. utils/FileEncryption). Путь из
+// Recording.audioFilePath - ключ в таблице audio_keys, где лежат имя файла и его ключ.
+// Открытым текстом файлы на диске не лежат
+export class SecureFileService {
+  // Файлы, которые шифруются прямо сейчас: ключ в базе появится после шифрования
+  private static pendingFiles = new Set<string>();
+
+  // Шифрование файла: создаётся зашифрованная копия, исходный файл удаляется
+  static async storeFile(sourceUri: string, path: string): Promise<void> {
+    const fileName = `${Crypto.randomUUID()}.enc`;
+    const key = generateFileKey();
+    const target = new File(encryptedAudioDirectory(), fileName);
+    this.pendingFiles.add(fileName);
+    let previous: AudioKeyRow | null;
+    try {
+      const size = await encryptFile(new File(sourceUri), target, key);
+      const db = await DatabaseService.getDatabase();
+      previous = await db.getFirstAsync<AudioKeyRow>('SELECT * FROM audio_keys WHERE path = ?', path);
+      await db.runAsync(
+        'INSERT OR REPLACE INTO audio_keys (path, file_name, key, size, created_at) VALUES (?, ?, ?, ?, ?)',
+        path,
+        fileName,
+        key,
+        size,
+        new Date().toISOString()
+      );
+    } catch (error) {
+      this.deleteEncryptedFile(fileName);
+      throw error;
+    } finally {
+      this.pendingFiles.delete(fileName);
+    }
+    if (previous) {
+      this.deleteEncryptedFile(previous.file_name);
+    }
+    await FileSystem.deleteAsync(sourceUri, { idempotent: true });
+  }
+
+  // Временная расшифрованная копия. Файлы, которых нет в хранилище (например, временный
+  // файл только что завершённой записи), возвращаются как есть
+  static async getReadableUri(path: string): Promise<string> {
+    const db = await DatabaseService.getDatabase();
+    const row = await db.getFirstAsync<AudioKeyRow>('SELECT * FROM audio_keys WHERE path = ?', path);
+    if (!row) return path;
+
+    await FileSystem.makeDirectoryAsync(DECRYPTED_DIR, { intermediates: true });
+    const readableUri = `${DECRYPTED_DIR}${Date.now()}_${path.split('/').pop()}`;
+    try {
+      await decryptFile(new File(encryptedAudioDirectory(), row.file_name), new File(readableUri), row.key, row.size);
+    } catch (error) {
+      await this.releaseReadableUri(readableUri);
+      throw error;
+    }
+    return readableUri;
+  }
+
+  static async releaseReadableUri(uri: string): Promise<void> {
+    if (!uri.startsWith(DECRYPTED_DIR)) return;
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } catch (error) {
+      console.error('Ошибка при удалении расшифрованной копии:', error);
+    }
+  }
+
+  static async withDecryptedFile<T>(path: string, action: (uri: string) => Promise<T>): Promise<T> {
+    const uri = await this.getReadableUri(path);
+    try {
+      return await action(uri);
+    } finally {
+      await this.releaseReadableUri(uri);
+    }
+  }
+
+  static async removeFile(path: string): Promise<void> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      const row = await db.getFirstAsync<AudioKeyRow>('SELECT * FROM audio_keys WHERE path = ?', path);
+      if (!row) return;
+      await db.runAsync('DELETE FROM audio_keys WHERE path = ?', path);
+      this.deleteEncryptedFile(row.file_name);
+    } catch (error) {
+      console.error('Ошибка при удалении аудио файла:', error);
+    }
+  }
+
+  // Сколько байт занимает зашифрованный файл каждой записи на диске
+  static async getStoredSizes(): Promise<Record<string, number>> {
+    const db = await DatabaseService.getDatabase();
+    const rows = await db.getAllAsync<AudioKeyRow>('SELECT * FROM audio_keys');
+    const directory = encryptedAudioDirectory();
+    return Object.fromEntries(rows.map(row => [row.path, new File(directory, row.file_name).size ?? 0]));
+  }
+
+  // Удаление зашифрованных файлов без ключа (остались после сбоя) и пересборка базы
+  static async compact(): Promise<void> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      const rows = await db.getAllAsync<{ file_name: string }>('SELECT file_name FROM audio_keys');
+      const known = new Set(rows.map(row => row.file_name));
+      const directory = encryptedAudioDirectory();
+      if (directory.exists) {
+        directory.list()
+          .filter(entry => entry instanceof File && !known.has(entry.name) && !this.pendingFiles.has(entry.name))
+          .forEach(entry => entry.delete());
+      }
+      await db.execAsync('VACUUM');
+    } catch (error) {
+      console.error('Ошибка при сжатии хранилища:', error);
+    }
+  }
+
+  // Копии, оставшиеся после аварийного завершения приложения
+  static async clearDecryptedFiles(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(DECRYPTED_DIR, { idempotent: true });
+    } catch (error) {
+      console.error('Ошибка при очистке расшифрованных копий:', error);
+    }
+  }
+
+  // Стирание всех локальных записей: база с ключами файлов удаляется, ключ базы уничтожается
+  static async wipe(): Promise<void> {
+    await DatabaseService.deleteDatabase();
+    await CredentialService.removeStorageKey();
+    await this.clearDecryptedFiles();
+    await FileSystem.deleteAsync(encryptedAudioDirectory().uri, { idempotent: true }).catch(() => undefined);
+    await FileSystem.deleteAsync(RECORDINGS_DIR, { idempotent: true }).catch(() => undefined);
+    console.log('🧹 Локальные записи и ключ шифрования удалены');
+  }
+
+  private static deleteEncryptedFile(fileName: string): void {
+    const file = new File(encryptedAudioDirectory(), fileName);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Recording, Shift, ShiftSummary, User } from '../types';
+import { StorageService } from './StorageService';
+import { syncService } from './SyncService';
+
+// Смена связывает записи продавца с рабочим временем: по итогам видно,
+// были ли контакты, сколько длились разговоры и что осталось незагруженным
+export class ShiftService {
+  static async startShift(user: User, locationId: string): Promise<Shift> {
+    const shift: Shift = {
+      id: Date.now().toString(),
+      userId: user.id,
+      username: user.username,
+      locationId,
+      startedAt: new Date().toISOString(),
+      synced: false,
+    };
+    await StorageService.saveShift(shift);
+    return shift;
+  }
+
+  // Итоги фиксируются при завершении и загружаются на сервер через очередь синхронизации
+  static async endShift(shift: Shift): Promise<Shift> {
+    const recordings = (await StorageService.getRecordings()).filter(r => r.shiftId === shift.id);
+    const endedShift: Shift = {
+      ...shift,
+      endedAt: new Date().toISOString(),
+      summary: this.summarize(recordings),
+      synced: false,
+    };
+
+    await StorageService.saveShift(endedShift);
+    syncService.schedule();
+    return endedShift;
+  }
+
+  // Сегменты одного длинного контакта считаются одним контактом
+  static summarize(recordings: Recording[]): ShiftSummary {
+    const contactIds = new Set(recordings.map(r => r.contactId || r.id));
+    return {
+      contactsCount: contactIds.size,
+      recordingsCount: recordings.length,
+      totalTalkMs: recordings.reduce((total, r) => total + r.duration, 0),
+      unsyncedCount: recordings.filter(r => !r.synced).length,
+    };
+  }
+}
@@ -1,10 +1,30 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, Location, Recording } from '../types';
+import {
+  User,
+  Location,
+  Recording,
+  RecordingSession,
+  RecordingProfileId,
+  ScriptChecklist,
+  Shift,
+  ServerDeletion,
+  SAMPLE_LOCATIONS,
+} from '../types';
+import { CredentialService } from './CredentialService';
+import { DatabaseService, RecordingRow, ShiftRow, deserializeRecording } from './DatabaseService';
+import { SecureFileService } from './SecureFileService';
+import { isRecordingProfileId } from '../config/recordingProfiles';
 
 export class StorageService {
   private static readonly USER_KEY = 'user_data';
   private static readonly LOCATION_KEY = 'selected_location';
-  private static readonly RECORDINGS_KEY = 'recordings';
+  private static readonly LEGACY_TOKEN_KEY = 'authToken';
+  private static readonly RECORDING_SESSION_KEY = 'active_recording_session';
+  private static readonly RECORDING_PROFILE_KEY = 'recording_profile';
+  private static readonly SCRIPT_CHECKLISTS_KEY = 'script_checklists';
+  private static readonly SERVER_DELETIONS_KEY = 'server_deletions';
+  private static readonly LOCATIONS_KEY = 'cached_locations';
+  private static updateQueue: Promise<void> = Promise.resolve();
 
   // Пользователи
   static async saveUser(user: User): Promise<void> {
@@ -33,6 +53,31 @@ export class StorageService {
     }
   }
 
+  // Миграция со старых версий: пароль хранился в user_data, а токен - в AsyncStorage.
+  // Пароль удаляем (верификатор для офлайн входа создаётся только при входе онлайн),
+  // токен переносим в защищённое хранилище
+  static async migrateLegacyCredentials(): Promise<void> {
+    try {
+      const userData = await AsyncStorage.getItem(this.USER_KEY);
+      if (userData) {
+        const { password, ...user } = JSON.parse(userData) as User & { password?: string };
+        if (password !== undefined) {
+          await AsyncStorage.setItem(this.USER_KEY, JSON.stringify(user));
+          console.log('🔐 Пароль удалён из сохранённого профиля');
+        }
+      }
+
+      const legacyToken = await AsyncStorage.getItem(this.LEGACY_TOKEN_KEY);
+      if (legacyToken) {
+        await CredentialService.saveToken(legacyToken);
+        await AsyncStorage.removeItem(this.LEGACY_TOKEN_KEY);
+        console.log('🔐 Токен перенесён в защищённое хранилище');
+      }
+    } catch (error) {
+      console.error('Ошибка при миграции учетных данных:', error);
+    }
+  }
+
   // Локация
   static async saveSelectedLocation(location: Location): Promise<void> {
     try {
@@ -52,12 +97,106 @@ export class StorageService {
     }
   }
 
-  // Записи
+  // Локации с сервера: по ним определяются названия локаций в записях, в том числе без сети
+  static async saveLocations(locations: Location[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.LOCATIONS_KEY, JSON.stringify(locations));
+    } catch (error) {
+      console.error('Ошибка при сохранении списка локаций:', error);
+    }
+  }
+
+  static async getLocations(): Promise<Location[]> {
+    try {
+      const locationsData = await AsyncStorage.getItem(this.LOCATIONS_KEY);
+      return locationsData ? JSON.parse(locationsData) : [];
+    } catch (error) {
+      console.error('Ошибка при получении списка локаций:', error);
+      return [];
+    }
+  }
+
+  // Все известные устройству локации: выбранная, загруженные с сервера и встроенные
+  static async getKnownLocations(): Promise<Location[]> {
+    const selectedLocation = await this.getSelectedLocation();
+    const cachedLocations = await this.getLocations();
+    return [...(selectedLocation ? [selectedLocation] : []), ...cachedLocations, ...SAMPLE_LOCATIONS];
+  }
+
+  // Профиль качества записи, выбранный на устройстве (null - профиль локации)
+  static async saveRecordingProfile(profileId: RecordingProfileId | null): Promise<void> {
+    try {
+      if (profileId) {
+        await AsyncStorage.setItem(this.RECORDING_PROFILE_KEY, profileId);
+      } else {
+        await AsyncStorage.removeItem(this.RECORDING_PROFILE_KEY);
+      }
+    } catch (error) {
+      console.error('Ошибка при сохранении профиля записи:', error);
+    }
+  }
+
+  static async getRecordingProfile(): Promise<RecordingProfileId | null> {
+    try {
+      const profileId = await AsyncStorage.getItem(this.RECORDING_PROFILE_KEY);
+      return isRecordingProfileId(profileId) ? profileId : null;
+    } catch (error) {
+      console.error('Ошибка при получении профиля записи:', error);
+      return null;
+    }
+  }
+
+  // Чек-листы скрипта продаж по id локации (загружаются с сервера при входе)
+  static async saveScriptChecklists(checklists: Record<string, ScriptChecklist>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.SCRIPT_CHECKLISTS_KEY, JSON.stringify(checklists));
+    } catch (error) {
+      console.error('Ошибка при сохранении чек-листов скрипта:', error);
+    }
+  }
+
+  static async getScriptChecklists(): Promise<Record<string, ScriptChecklist>> {
+    try {
+      const checklistsData = await AsyncStorage.getItem(this.SCRIPT_CHECKLISTS_KEY);
+      return checklistsData ? JSON.parse(checklistsData) : {};
+    } catch (error) {
+      console.error('Ошибка при получении чек-листов скрипта:', error);
+      return {};
+    }
+  }
+
+  // Текущая сессия записи
+  static async saveRecordingSession(session: RecordingSession): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.RECORDING_SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Ошибка при сохранении сессии записи:', error);
+    }
+  }
+
+  static async getRecordingSession(): Promise<RecordingSession | null> {
+    try {
+      const sessionData = await AsyncStorage.getItem(this.RECORDING_SESSION_KEY);
+      return sessionData ? JSON.parse(sessionData) : null;
+    } catch (error) {
+      console.error('Ошибка при получении сессии записи:', error);
+      return null;
+    }
+  }
+
+  static async clearRecordingSession(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.RECORDING_SESSION_KEY);
+    } catch (error) {
+      console.error('Ошибка при удалении сессии записи:', error);
+    }
+  }
+
+  // Записи (SQLite, см. DatabaseService)
   static async saveRecording(recording: Recording): Promise<void> {
     try {
-      const recordings = await this.getRecordings();
-      const updatedRecordings = [...recordings, recording];
-      await AsyncStorage.setItem(this.RECORDINGS_KEY, JSON.stringify(updatedRecordings));
+      const db = await DatabaseService.getDatabase();
+      await DatabaseService.upsertRecording(db, recording);
     } catch (error) {
       console.error('Ошибка при сохранении записи:', error);
     }
@@ -65,29 +204,179 @@ export class StorageService {
 
   static async getRecordings(): Promise<Recording[]> {
     try {
-      const recordingsData = await AsyncStorage.getItem(this.RECORDINGS_KEY);
-      return recordingsData ? JSON.parse(recordingsData) : [];
+      const db = await DatabaseService.getDatabase();
+      const rows = await db.getAllAsync<RecordingRow>('SELECT * FROM recordings ORDER BY start_time DESC');
+      return rows.map(row => deserializeRecording(row.data));
     } catch (error) {
       console.error('Ошибка при получении записей:', error);
       return [];
     }
   }
 
+  // Чтение и запись в одной транзакции, чтобы параллельные обновления не затирали друг друга.
+  // Транзакция идёт на основном соединении: только на нём задан ключ шифрования
+  static async updateRecording(recordingId: string, updates: Partial<Recording>): Promise<void> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      await this.serializeUpdate(() => db.withTransactionAsync(async () => {
+        const row = await db.getFirstAsync<RecordingRow>('SELECT * FROM recordings WHERE id = ?', recordingId);
+        if (!row) return;
+        await DatabaseService.upsertRecording(db, { ...deserializeRecording(row.data), ...updates });
+      }));
+    } catch (error) {
+      console.error('Ошибка при обновлении записи:', error);
+    }
+  }
+
+  static async getUnsyncedRecordings(): Promise<Recording[]> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      const rows = await db.getAllAsync<RecordingRow>(
+        'SELECT * FROM recordings WHERE synced = 0 ORDER BY start_time ASC'
+      );
+      return rows.map(row => deserializeRecording(row.data));
+    } catch (error) {
+      console.error('Ошибка при получении несинхронизированных записей:', error);
+      return [];
+    }
+  }
+
   static async removeRecording(recordingId: string): Promise<void> {
     try {
-      const recordings = await this.getRecordings();
-      const filteredRecordings = recordings.filter(r => r.id !== recordingId);
-      await AsyncStorage.setItem(this.RECORDINGS_KEY, JSON.stringify(filteredRecordings));
+      const db = await DatabaseService.getDatabase();
+      await db.runAsync('DELETE FROM recordings WHERE id = ?', recordingId);
     } catch (error) {
       console.error('Ошибка при удалении записи:', error);
     }
   }
 
+  // Удаления записей, загруженных на сервер
+  static async addServerDeletion(deletion: ServerDeletion): Promise<void> {
+    try {
+      const deletions = (await this.getServerDeletions()).filter(d => d.serverId !== deletion.serverId);
+      await AsyncStorage.setItem(this.SERVER_DELETIONS_KEY, JSON.stringify([...deletions, deletion]));
+    } catch (error) {
+      console.error('Ошибка при сохранении удаления записи:', error);
+    }
+  }
+
+  static async getServerDeletions(): Promise<ServerDeletion[]> {
+    try {
+      const data = await AsyncStorage.getItem(this.SERVER_DELETIONS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Ошибка при получении удалений записей:', error);
+      return [];
+    }
+  }
+
+  static async removeServerDeletion(serverId: number): Promise<void> {
+    try {
+      const deletions = (await this.getServerDeletions()).filter(d => d.serverId !== serverId);
+      await AsyncStorage.setItem(this.SERVER_DELETIONS_KEY, JSON.stringify(deletions));
+    } catch (error) {
+      console.error('Ошибка при удалении из очереди удалений:', error);
+    }
+  }
+
+  // Смены (SQLite)
+  static async saveShift(shift: Shift): Promise<void> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      await DatabaseService.upsertShift(db, shift);
+    } catch (error) {
+      console.error('Ошибка при сохранении смены:', error);
+    }
+  }
+
+  // Открытая смена продавца (без времени окончания)
+  static async getActiveShift(userId: string): Promise<Shift | null> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      const row = await db.getFirstAsync<ShiftRow>(
+        'SELECT * FROM shifts WHERE user_id = ? AND ended_at IS NULL ORDER BY started_at DESC',
+        userId
+      );
+      return row ? JSON.parse(row.data) : null;
+    } catch (error) {
+      console.error('Ошибка при получении смены:', error);
+      return null;
+    }
+  }
+
+  // Завершённые смены, итоги которых ещё не загружены на сервер
+  static async getUnsyncedShifts(): Promise<Shift[]> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      const rows = await db.getAllAsync<ShiftRow>(
+        'SELECT * FROM shifts WHERE synced = 0 AND ended_at IS NOT NULL ORDER BY started_at ASC'
+      );
+      return rows.map(row => JSON.parse(row.data));
+    } catch (error) {
+      console.error('Ошибка при получении несинхронизированных смен:', error);
+      return [];
+    }
+  }
+
+  static async updateShift(shiftId: string, updates: Partial<Shift>): Promise<void> {
+    try {
+      const db = await DatabaseService.getDatabase();
+      await this.serializeUpdate(() => db.withTransactionAsync(async () => {
+        const row = await db.getFirstAsync<ShiftRow>('SELECT * FROM shifts WHERE id = ?', shiftId);
+        if (!row) return;
+        await DatabaseService.upsertShift(db, { ...JSON.parse(row.data), ...updates });
+      }));
+    } catch (error) {
+      console.error('Ошибка при обновлении смены:', error);
+    }
+  }
+
+  // withTransactionAsync не изолирует транзакцию от других запросов на том же соединении,
+  // поэтому обновления выполняются строго по очереди
+  private static serializeUpdate(update: () => Promise<void>): Promise<void> {
+    const next = this.updateQueue.then(update);
+    this.updateQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  // Данные одного продавца на общем устройстве: его записи с аудио, отправленные смены и очередь
+  // удалений. Записи на юридическом удержании и неотправленные итоги смен остаются
+  static async clearUserData(userId: string): Promise<void> {
+    try {
+      await AsyncStorage.multiRemove([this.USER_KEY, this.RECORDING_SESSION_KEY]);
+      const deletions = (await this.getServerDeletions()).filter(d => d.userId !== userId);
+      await AsyncStorage.setItem(this.SERVER_DELETIONS_KEY, JSON.stringify(deletions));
+
+      const db = await DatabaseService.getDatabase();
+      const rows = await db.getAllAsync<RecordingRow>('SELECT * FROM recordings WHERE user_id = ?', userId);
+      for (const recording of rows.map(row => deserializeRecording(row.data))) {
+        if (recording.legalHold) continue;
+        if (recording.audioFilePath) {
+          await SecureFileService.removeFile(recording.audioFilePath);
+        }
+        await db.runAsync('DELETE FROM recordings WHERE id = ?', recording.id);
+      }
+      await db.runAsync('DELETE FROM shifts WHERE user_id = ? AND synced = 1', userId);
+      await SecureFileService.compact();
+    } catch (error) {
+      console.error('Ошибка при очистке данных продавца:', error);
+    }
+  }
+
+  // Полная очистка устройства: профиль, сессия записи, база записей и ключ шифрования
   static async clearAllData(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove([this.USER_KEY, this.LOCATION_KEY, this.RECORDINGS_KEY]);
+      await AsyncStorage.multiRemove([
+        this.USER_KEY,
+        this.LOCATION_KEY,
+        this.RECORDING_SESSION_KEY,
+        this.SCRIPT_CHECKLISTS_KEY,
+        this.SERVER_DELETIONS_KEY,
+        this.LOCATIONS_KEY,
+      ]);
+      await SecureFileService.wipe();
     } catch (error) {
       console.error('Ошибка при очистке данных:', error);
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,268 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { Recording, ServerDeletion, Shift } from '../types';
+import { StorageService } from './StorageService';
+import { SecureFileService } from './SecureFileService';
+import { RetentionService } from './RetentionService';
+import { apiService, ApiError } from './ApiService';
+import { logger } from '../utils/Logger';
+
+// Параметры экспоненциальной задержки между попытками загрузки
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+// Как часто проверять доступность сервера, если очередь не пуста
+const SERVER_CHECK_INTERVAL_MS = 60 * 1000;
+
+class SyncService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private isSyncing = false;
+  private isStarted = false;
+  private userId: string | null = null;
+
+  // Запуск фоновой синхронизации (после входа или при старте приложения).
+  // Загружаются только записи текущего продавца - с его токеном
+  start(userId: string): void {
+    if (this.isStarted && this.userId === userId) return;
+    if (this.isStarted) this.stop();
+    this.isStarted = true;
+    this.userId = userId;
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    logger.info('🔄 Синхронизация запущена');
+    this.syncNow();
+  }
+
+  // Остановка синхронизации (при выходе)
+  stop(): void {
+    this.isStarted = false;
+    this.userId = null;
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    logger.info('⏹️ Синхронизация остановлена');
+  }
+
+  // Запланировать синхронизацию, например после сохранения новой записи локально
+  schedule(): void {
+    if (!this.isStarted) return;
+    this.syncNow();
+  }
+
+  // Загрузить все несинхронизированные записи, для которых наступило время повтора
+  async syncNow(): Promise<void> {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+    this.clearTimer();
+
+    try {
+      const pending = await this.getPendingRecordings();
+      const pendingShifts = await this.getPendingShifts();
+      const pendingDeletions = await this.getPendingDeletions();
+      if (pending.length === 0 && pendingShifts.length === 0 && pendingDeletions.length === 0) {
+        return;
+      }
+
+      // Офлайн сессия: записи ждут, пока продавец войдёт онлайн и получит токен
+      if (!apiService.hasAuthToken()) {
+        logger.info('🔒 Нет токена, синхронизация ждёт входа онлайн', { pending: pending.length });
+        return;
+      }
+
+      const now = Date.now();
+      const due = pending.filter(r => !r.nextRetryAt || new Date(r.nextRetryAt).getTime() <= now);
+      if (due.length === 0 && pendingShifts.length === 0 && pendingDeletions.length === 0) {
+        return;
+      }
+
+      if (!(await this.isServerReachable())) {
+        logger.warn('📡 Сервер недоступен, синхронизация отложена', { pending: pending.length });
+        return;
+      }
+
+      logger.info(`📤 Синхронизация записей: ${due.length} из ${pending.length}`);
+      let uploaded = 0;
+      for (const recording of due) {
+        if (!this.isStarted) break;
+        if (await this.uploadRecording(recording)) uploaded++;
+      }
+
+      for (const shift of pendingShifts) {
+        if (!this.isStarted) break;
+        await this.uploadShift(shift);
+      }
+
+      for (const deletion of pendingDeletions) {
+        if (!this.isStarted) break;
+        await this.deleteOnServer(deletion);
+      }
+
+      // Загруженное аудио теперь можно убирать с устройства по сроку хранения и квоте
+      if (uploaded > 0) {
+        await RetentionService.applyPolicy();
+      }
+    } catch (error) {
+      logger.error('❌ Ошибка синхронизации', { message: (error as Error).message });
+    } finally {
+      this.isSyncing = false;
+      await this.scheduleNext();
+    }
+  }
+
+  private async uploadRecording(recording: Recording): Promise<boolean> {
+    try {
+      // Аудио хранится зашифрованным - загружаем временную расшифрованную копию
+      const result = await SecureFileService.withDecryptedFile(recording.audioFilePath, uri => apiService.uploadRecording({
+        uri,
+        clientId: recording.id,
+        locationId: parseInt(recording.locationId),
+        durationSeconds: Math.round(recording.duration / 1000),
+        recordingDate: new Date(recording.startTime).toISOString(),
+        interrupted: recording.interrupted,
+        pauses: recording.pauses,
+        contactId: recording.contactId,
+        segmentIndex: recording.segmentIndex,
+        silenceStats: recording.silenceStats,
+        trim: recording.trim,
+        recordingProfile: recording.recordingProfile,
+        consent: recording.consent,
+        shiftId: recording.shiftId,
+      }));
+
+      await StorageService.updateRecording(recording.id, {
+        synced: true,
+        serverId: result.recording?.id,
+        serverStatus: result.recording?.status,
+        uploadAttempts: undefined,
+        nextRetryAt: undefined,
+        lastSyncError: undefined,
+      });
+      logger.info('✅ Запись синхронизирована', { id: recording.id, serverId: result.recording?.id });
+      return true;
+    } catch (error) {
+      const attempts = (recording.uploadAttempts || 0) + 1;
+      const nextRetryAt = new Date(Date.now() + this.getRetryDelay(attempts));
+      const message = (error as Error).message;
+      await StorageService.updateRecording(recording.id, {
+        uploadAttempts: attempts,
+        nextRetryAt: nextRetryAt.toISOString(),
+        lastSyncError: message,
+      });
+      logger.warn('⚠️ Не удалось синхронизировать запись', {
+        id: recording.id,
+        attempts,
+        nextRetryAt: nextRetryAt.toISOString(),
+        message,
+      });
+      return false;
+    }
+  }
+
+  // Итоги смены повторяются при каждой синхронизации до успешной загрузки
+  private async uploadShift(shift: Shift): Promise<void> {
+    if (!shift.endedAt || !shift.summary) return;
+
+    try {
+      const result = await apiService.uploadShift({
+        clientId: shift.id,
+        locationId: parseInt(shift.locationId),
+        startedAt: shift.startedAt,
+        endedAt: shift.endedAt,
+        contactsCount: shift.summary.contactsCount,
+        recordingsCount: shift.summary.recordingsCount,
+        totalTalkSeconds: Math.round(shift.summary.totalTalkMs / 1000),
+        unsyncedCount: shift.summary.unsyncedCount,
+      });
+      await StorageService.updateShift(shift.id, { synced: true, serverId: result.shift?.id });
+      logger.info('✅ Итоги смены синхронизированы', { id: shift.id });
+    } catch (error) {
+      logger.warn('⚠️ Не удалось синхронизировать итоги смены', {
+        id: shift.id,
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  // Удаление, запрошенное без сети. Если сервер запретил удаление, больше не повторяем
+  private async deleteOnServer(deletion: ServerDeletion): Promise<void> {
+    try {
+      await apiService.deleteRecording(deletion.serverId);
+      await StorageService.addServerDeletion({ ...deletion, scope: 'local' });
+      logger.info('✅ Запись удалена на сервере', { serverId: deletion.serverId });
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 404 || error.status === 403)) {
+        await StorageService.addServerDeletion({ ...deletion, scope: 'local' });
+        logger.warn('⚠️ Удаление записи на сервере не выполнено', {
+          serverId: deletion.serverId,
+          status: error.status,
+        });
+        return;
+      }
+      logger.warn('⚠️ Не удалось удалить запись на сервере', {
+        serverId: deletion.serverId,
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  private async getPendingDeletions(): Promise<ServerDeletion[]> {
+    const deletions = await StorageService.getServerDeletions();
+    return deletions.filter(d => d.scope === 'everywhere' && d.userId === this.userId);
+  }
+
+  private async getPendingShifts(): Promise<Shift[]> {
+    const unsynced = await StorageService.getUnsyncedShifts();
+    return unsynced.filter(s => s.userId === this.userId);
+  }
+
+  private async getPendingRecordings(): Promise<Recording[]> {
+    const unsynced = await StorageService.getUnsyncedRecordings();
+    return unsynced.filter(r => r.userId === this.userId);
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  private async isServerReachable(): Promise<boolean> {
+    try {
+      await apiService.checkServerHealth();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Планируем следующий запуск на ближайшее время повтора
+  private async scheduleNext(): Promise<void> {
+    if (!this.isStarted) return;
+
+    const pending = await this.getPendingRecordings();
+    const pendingShifts = await this.getPendingShifts();
+    const pendingDeletions = await this.getPendingDeletions();
+    if ((pending.length === 0 && pendingShifts.length === 0 && pendingDeletions.length === 0) || !apiService.hasAuthToken()) return;
+
+    const now = Date.now();
+    const nextRetry = pending.length > 0
+      ? Math.min(...pending.map(r => (r.nextRetryAt ? new Date(r.nextRetryAt).getTime() : now)))
+      : now + SERVER_CHECK_INTERVAL_MS;
+    const delay = Math.min(Math.max(nextRetry - now, BASE_RETRY_DELAY_MS), SERVER_CHECK_INTERVAL_MS);
+
+    this.clearTimer();
+    this.timer = setTimeout(() => this.syncNow(), delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.syncNow();
+    }
+  };
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,93 @@
+import { Recording, TranscriptionCache, TranscriptionStatus } from '../types';
+import { StorageService } from './StorageService';
+import { SecureFileService } from './SecureFileService';
+import { apiService, ApiError, TranscriptionResponse } from './ApiService';
+import { hasLocalAudio } from '../utils/RetentionPolicy';
+
+// Транскрипция выполняется на сервере асинхронно: запрос ставит задачу в очередь,
+// статус опрашивается до завершения. Результат кэшируется в записи на устройстве
+export class TranscriptionService {
+  static isPending(recording: Recording): boolean {
+    const status = recording.transcription?.status;
+    return status === 'queued' || status === 'processing';
+  }
+
+  static isCompleted(recording: Recording): boolean {
+    return recording.transcription?.status === 'completed' && !!recording.transcription.text;
+  }
+
+  // Запуск транскрипции по id записи на сервере. Если сервер не нашёл аудио,
+  // повторяем запрос с файлом с устройства
+  static async requestTranscription(recording: Recording): Promise<TranscriptionCache> {
+    if (!recording.synced || !recording.serverId) {
+      throw new Error('Запись ещё не загружена на сервер');
+    }
+
+    const requestedAt = new Date().toISOString();
+    let response: TranscriptionResponse;
+    try {
+      response = await apiService.transcribeRecording(recording.serverId);
+    } catch (error) {
+      // Аудио может не быть на устройстве: запись с другого устройства или удалена по сроку хранения
+      if (error instanceof ApiError && (error.status === 404 || error.status === 422) && hasLocalAudio(recording)) {
+        console.log('📤 Аудио на сервере не найдено, отправляем файл с устройства');
+        const serverId = recording.serverId;
+        response = await SecureFileService.withDecryptedFile(
+          recording.audioFilePath,
+          uri => apiService.transcribeRecordingWithAudio(serverId, uri)
+        );
+      } else {
+        throw error;
+      }
+    }
+
+    return this.saveResult(recording, response, requestedAt);
+  }
+
+  // Обновление статуса задачи транскрипции
+  static async refreshTranscription(recording: Recording): Promise<TranscriptionCache> {
+    if (!recording.serverId) {
+      throw new Error('Запись ещё не загружена на сервер');
+    }
+
+    const requestedAt = recording.transcription?.requestedAt || new Date().toISOString();
+    const response = await apiService.getTranscription(recording.serverId);
+    return this.saveResult(recording, response, requestedAt);
+  }
+
+  private static async saveResult(
+    recording: Recording,
+    response: TranscriptionResponse,
+    requestedAt: string
+  ): Promise<TranscriptionCache> {
+    const transcription: TranscriptionCache = {
+      status: this.resolveStatus(response),
+      text: response.transcription,
+      words: response.words?.map(word => ({
+        word: word.word,
+        startMs: Math.round(word.start * 1000),
+        endMs: Math.round(word.end * 1000),
+      })),
+      turns: response.segments?.map(segment => ({
+        // Всё, что сервер не отнёс к продавцу, считаем репликами покупателя
+        speaker: segment.speaker === 'seller' ? 'seller' : 'customer',
+        startMs: Math.round(segment.start * 1000),
+        endMs: Math.round(segment.end * 1000),
+        text: segment.text,
+      })),
+      transcribedAt: response.transcribedAt,
+      requestedAt,
+      error: response.success ? undefined : response.message,
+    };
+
+    await StorageService.updateRecording(recording.id, { transcription });
+    return transcription;
+  }
+
+  // Старые версии сервера не возвращают статус, а сразу отдают текст
+  private static resolveStatus(response: TranscriptionResponse): TranscriptionStatus {
+    if (response.status) return response.status;
+    if (!response.success) return 'failed';
+    return response.transcription ? 'completed' : 'processing';
+  }
+}
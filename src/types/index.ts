@@ -1,26 +1,307 @@
+export type UserRole = 'seller' | 'admin';
+
 export interface User {
   id: string;
   username: string;
-  password: string;
   isLoggedIn: boolean;
+  // Роль с сервера; в офлайн сессии неизвестна и права считаются как у продавца
+  role?: UserRole;
+  // Вход без сети по сохранённому верификатору: записи ждут входа онлайн для загрузки
+  isOfflineSession?: boolean;
+  offlineSessionExpiresAt?: string;
 }
 
 export interface Location {
   id: string;
   name: string;
   address: string;
+  // Профиль качества записи, заданный для локации на сервере
+  recordingProfile?: RecordingProfileId;
+}
+
+export type RecordingProfileId = 'speech-low' | 'speech-standard' | 'archival';
+
+// Пункт обязательного скрипта продаж: выполнен, если в речи продавца
+// встретилась одна из фраз или подошло одно из регулярных выражений
+export interface ScriptChecklistItem {
+  id: string;
+  title: string;
+  phrases: string[];
+  patterns?: string[];
+}
+
+// Чек-лист скрипта для локации или рекламной кампании
+export interface ScriptChecklist {
+  id: string;
+  name: string;
+  campaign?: string;
+  items: ScriptChecklistItem[];
+}
+
+// Профиль качества записи
+export type AudioCodec = 'aac';
+
+export interface RecordingProfile {
+  id: RecordingProfileId;
+  name: string;
+  codec: AudioCodec;
+  sampleRate: number;
+  channels: number;
+  bitRate: number;
 }
 
 export interface Recording {
   id: string;
   userId: string;
+  // Имя продавца на момент записи (для поиска и отчётов)
+  username?: string;
   locationId: string;
   startTime: Date;
   endTime?: Date;
   audioFilePath: string;
   duration: number;
   serverId?: number;
+  // Статус записи на сервере (ApiRecording.status) на момент последней сверки
+  serverStatus?: string;
   synced?: boolean;
+  // Запись сделана на другом устройстве: на этом устройстве только метаданные, аудио на сервере
+  remoteOnly?: boolean;
+  // Аудио удалено с устройства по сроку хранения или квоте, воспроизводится с сервера
+  audioRemovedAt?: string;
+  // Юридическое удержание: аудио не удаляется с устройства, запись нельзя удалить
+  legalHold?: boolean;
+  // Длинный контакт делится на сегменты с общим contactId, segmentIndex начинается с 1
+  contactId?: string;
+  segmentIndex?: number;
+  // Паузы во время контакта (в длительность не входят)
+  pauses?: PauseMarker[];
+  silenceStats?: SilenceStats;
+  trim?: TrimOffsets;
+  recordingProfile?: RecordingProfileId;
+  consent?: CustomerConsent;
+  // Смена, во время которой начата запись
+  shiftId?: string;
+  transcription?: TranscriptionCache;
+  // Запись в корзине: когда и кем удалена, и откуда её стереть при очистке корзины
+  deletedAt?: string;
+  deletedBy?: string;
+  deletionScope?: DeletionScope;
+  // Запись восстановлена после аварийного завершения приложения
+  interrupted?: boolean;
+  // Состояние очереди синхронизации (для несинхронизированных записей)
+  uploadAttempts?: number;
+  nextRetryAt?: string;
+  lastSyncError?: string;
+}
+
+export type DeletionScope = 'local' | 'everywhere';
+
+// Удалённая на устройстве запись, уже загруженная на сервер. Сверка с сервером не
+// возвращает её в список, а с scope 'everywhere' она ждёт удаления на сервере
+export interface ServerDeletion {
+  serverId: number;
+  // Кто удалил: удаление на сервере выполняется с его токеном
+  userId: string;
+  scope: DeletionScope;
+  requestedAt: string;
+}
+
+// Пауза внутри одного контакта. offsetMs - позиция в аудио, на которой была сделана пауза
+export interface PauseMarker {
+  pausedAt: string;
+  resumedAt?: string;
+  offsetMs: number;
+}
+
+// Уровень сигнала микрофона в момент offsetMs от начала аудио
+export interface MeteringSample {
+  offsetMs: number;
+  levelDb: number;
+}
+
+// Статистика тишины за запись
+export interface SilenceStats {
+  totalSilenceMs: number;
+  longestSilenceMs: number;
+  averageLevelDb: number;
+  thresholdDb: number;
+}
+
+// Границы речи в аудио: тишина до startOffsetMs и после endOffsetMs обрезается на сервере
+export interface TrimOffsets {
+  startOffsetMs: number;
+  endOffsetMs: number;
+}
+
+// Согласие покупателя на запись: уведомление устно (подтверждает продавец)
+// или аудио-уведомлением через динамик
+export type ConsentStatus = 'given' | 'refused';
+export type ConsentMethod = 'verbal' | 'audio_disclaimer';
+
+export interface CustomerConsent {
+  status: ConsentStatus;
+  method: ConsentMethod;
+  confirmedAt: string;
+}
+
+export type TranscriptionStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// Транскрипция, закэшированная на устройстве (доступна без сети)
+export interface TranscriptionCache {
+  status: TranscriptionStatus;
+  text?: string;
+  // Время слов от начала записи, если сервер их вернул
+  words?: TranscriptWord[];
+  // Реплики с разделением по говорящим, если сервер их вернул
+  turns?: TranscriptTurn[];
+  transcribedAt?: string;
+  requestedAt: string;
+  error?: string;
+}
+
+export interface TranscriptWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+export type SpeakerRole = 'seller' | 'customer';
+
+export interface TranscriptTurn {
+  speaker: SpeakerRole;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+// Незавершённая сессия записи, сохраняется на случай аварийного завершения приложения
+export interface RecordingSession {
+  userId: string;
+  username?: string;
+  locationId: string;
+  startTime: string;
+  tempUri: string;
+  pauses?: PauseMarker[];
+  recordingProfile?: RecordingProfileId;
+  consent?: CustomerConsent;
+  shiftId?: string;
+}
+
+// Рабочая смена продавца на локации
+export interface Shift {
+  id: string;
+  userId: string;
+  username?: string;
+  locationId: string;
+  startedAt: string;
+  endedAt?: string;
+  // Итоги смены фиксируются при её завершении
+  summary?: ShiftSummary;
+  synced?: boolean;
+  serverId?: number;
+}
+
+export interface ShiftSummary {
+  contactsCount: number;
+  recordingsCount: number;
+  totalTalkMs: number;
+  unsyncedCount: number;
+}
+
+// === Типы API сервера ===
+
+export interface ApiUser {
+  id: number;
+  username: string;
+  full_name: string;
+  role: UserRole;
+  email?: string;
+  phone?: string;
+}
+
+export interface ApiLocation {
+  id: number;
+  name: string;
+  address: string;
+  city?: string;
+  region?: string;
+  description?: string;
+  is_active?: boolean;
+  recording_profile?: string;
+  // Действующий чек-лист скрипта (с учётом текущей кампании)
+  script_checklist?: ScriptChecklist;
+}
+
+export interface ApiRecording {
+  id: number;
+  filename: string;
+  duration_seconds?: number;
+  file_size?: number;
+  location_id?: number;
+  location_name?: string;
+  // Автор записи (администратор видит записи всех продавцов)
+  user_id?: number;
+  username?: string;
+  // Id записи на устройстве, с которого она загружена
+  client_id?: string;
+  // Общий id сегментов одного длинного контакта
+  contact_id?: string;
+  recording_date: string;
+  uploaded_at: string;
+  status: string;
+  has_transcription: boolean;
+  transcribed_at?: string;
+}
+
+// Время слова в транскрипции, секунды от начала записи
+export interface ApiTranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Реплика в транскрипции с разделением по говорящим, секунды от начала записи
+export interface ApiTranscriptSegment {
+  speaker: SpeakerRole;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ShiftUploadData {
+  clientId: string;
+  locationId: number;
+  startedAt: string;
+  endedAt: string;
+  contactsCount: number;
+  recordingsCount: number;
+  totalTalkSeconds: number;
+  unsyncedCount: number;
+}
+
+export interface RecordingStats {
+  totalRecordings: number;
+  totalDuration: number;
+  averageDuration: number;
+  recordingsToday: number;
+}
+
+export interface RecordingUploadData {
+  uri: string;
+  // Id записи на устройстве - по нему запись сверяется со списком на сервере
+  clientId: string;
+  locationId: number;
+  durationSeconds: number;
+  recordingDate: string;
+  interrupted?: boolean;
+  pauses?: PauseMarker[];
+  contactId?: string;
+  segmentIndex?: number;
+  silenceStats?: SilenceStats;
+  trim?: TrimOffsets;
+  recordingProfile?: RecordingProfileId;
+  consent?: CustomerConsent;
+  shiftId?: string;
 }
 
 export interface AppState {
@@ -0,0 +1,62 @@
+// Метрики диалога продавца и покупателя по репликам транскрипции
+
+import { SpeakerRole, TranscriptTurn } from '../types';
+
+export interface Monologue {
+  speaker: SpeakerRole;
+  startMs: number;
+  durationMs: number;
+}
+
+export interface ConversationMetrics {
+  sellerTalkMs: number;
+  customerTalkMs: number;
+  // Доля речи продавца от всей речи, 0..1
+  sellerTalkRatio: number;
+  longestMonologue: Monologue | null;
+}
+
+// Подряд идущие реплики одного говорящего считаются одним монологом
+export function calculateConversationMetrics(turns: TranscriptTurn[]): ConversationMetrics | null {
+  if (turns.length === 0) {
+    return null;
+  }
+
+  let sellerTalkMs = 0;
+  let customerTalkMs = 0;
+  let longestMonologue: Monologue | null = null;
+  let current: Monologue | null = null;
+
+  turns.forEach(turn => {
+    const turnMs = Math.max(0, turn.endMs - turn.startMs);
+    if (turn.speaker === 'seller') {
+      sellerTalkMs += turnMs;
+    } else {
+      customerTalkMs += turnMs;
+    }
+
+    if (current && current.speaker === turn.speaker) {
+      current.durationMs = turn.endMs - current.startMs;
+    } else {
+      current = { speaker: turn.speaker, startMs: turn.startMs, durationMs: turnMs };
+    }
+
+    if (!longestMonologue || current.durationMs > longestMonologue.durationMs) {
+      longestMonologue = { ...current };
+    }
+  });
+
+  const totalTalkMs = sellerTalkMs + customerTalkMs;
+
+  return {
+    sellerTalkMs,
+    customerTalkMs,
+    sellerTalkRatio: totalTalkMs > 0 ? sellerTalkMs / totalTalkMs : 0,
+    longestMonologue,
+  };
+}
+
+export const SPEAKER_LABELS: Record<SpeakerRole, string> = {
+  seller: 'Продавец',
+  customer: 'Покупатель',
+};
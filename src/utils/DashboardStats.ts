@@ -0,0 +1,112 @@
+// Статистика для панели продаж: периоды, средняя длительность и тренды
+
+export type DashboardPeriod = 'today' | 'week' | 'month';
+
+// Контакт в статистике: с сервера или ещё не загруженный с устройства
+export interface DashboardEntry {
+  date: Date;
+  durationMs: number;
+  locationId: string;
+  locationName: string;
+  sellerName: string;
+}
+
+export interface PeriodStats {
+  count: number;
+  totalDurationMs: number;
+  averageDurationMs: number;
+}
+
+export interface GroupStats extends PeriodStats {
+  name: string;
+  // Изменение числа контактов к предыдущему такому же периоду, % (null - не с чем сравнить)
+  trendPercent: number | null;
+}
+
+export interface DashboardStats {
+  current: PeriodStats;
+  previous: PeriodStats;
+  trendPercent: number | null;
+  bySeller: GroupStats[];
+  byLocation: GroupStats[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PERIOD_LABELS: Record<DashboardPeriod, string> = {
+  today: 'Сегодня',
+  week: 'Неделя',
+  month: 'Месяц',
+};
+
+// Границы текущего периода: сегодня с полуночи, неделя и месяц - последние 7 и 30 дней
+export function getPeriodRange(period: DashboardPeriod, now: Date): { start: Date; end: Date } {
+  if (period === 'today') {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    return { start, end: now };
+  }
+
+  const days = period === 'week' ? 7 : 30;
+  return { start: new Date(now.getTime() - days * DAY_MS), end: now };
+}
+
+// Самая ранняя дата, нужная статистике: начало месяца, предшествующего текущему периоду 'month'
+export function getHistoryStart(now: Date): Date {
+  const { start, end } = getPeriodRange('month', now);
+  return new Date(start.getTime() - (end.getTime() - start.getTime()));
+}
+
+const calculatePeriodStats = (entries: DashboardEntry[]): PeriodStats => {
+  const totalDurationMs = entries.reduce((total, entry) => total + entry.durationMs, 0);
+  return {
+    count: entries.length,
+    totalDurationMs,
+    averageDurationMs: entries.length > 0 ? totalDurationMs / entries.length : 0,
+  };
+};
+
+const calculateTrend = (current: number, previous: number): number | null =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
+
+const groupBy = (
+  current: DashboardEntry[],
+  previous: DashboardEntry[],
+  getName: (entry: DashboardEntry) => string
+): GroupStats[] => {
+  const names = new Set([...current, ...previous].map(getName));
+
+  return Array.from(names)
+    .map(name => {
+      const stats = calculatePeriodStats(current.filter(entry => getName(entry) === name));
+      const previousCount = previous.filter(entry => getName(entry) === name).length;
+      return { name, ...stats, trendPercent: calculateTrend(stats.count, previousCount) };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+// Текущий период сравнивается с предыдущим той же длины (сегодня - со вчера на то же время)
+export function buildDashboardStats(
+  entries: DashboardEntry[],
+  period: DashboardPeriod,
+  now: Date = new Date()
+): DashboardStats {
+  const { start, end } = getPeriodRange(period, now);
+  const shiftMs = period === 'today' ? DAY_MS : end.getTime() - start.getTime();
+  const previousStart = new Date(start.getTime() - shiftMs);
+  const previousEnd = new Date(end.getTime() - shiftMs);
+
+  const current = entries.filter(entry => entry.date >= start && entry.date <= end);
+  const previous = entries.filter(entry => entry.date >= previousStart && entry.date < previousEnd);
+
+  const currentStats = calculatePeriodStats(current);
+  const previousStats = calculatePeriodStats(previous);
+
+  return {
+    current: currentStats,
+    previous: previousStats,
+    trendPercent: calculateTrend(currentStats.count, previousStats.count),
+    bySeller: groupBy(current, previous, entry => entry.sellerName),
+    byLocation: groupBy(current, previous, entry => entry.locationName),
+  };
+}
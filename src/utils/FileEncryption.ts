@@ -0,0 +1,108 @@
+// Потоковое шифрование аудио файлов (XChaCha20-Poly1305 по блокам).
+// Файл читается и пишется блоками, целиком в памяти не держится
+
+import { Directory, File, FileHandle, Paths } from 'expo-file-system/next';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, hexToBytes, nextTick } from '@noble/ciphers/utils';
+
+// Размер открытого блока
+const CHUNK_SIZE = 768 * 1024;
+
+// Блок на диске: длина открытого блока (4 байта) + nonce + шифротекст с тегом
+const HEADER_SIZE = 4;
+const NONCE_SIZE = 24;
+const TAG_SIZE = 16;
+
+// Зашифрованные файлы аудио. Ключ и размер каждого файла - в зашифрованной базе (таблица audio_keys)
+export const encryptedAudioDirectory = (): Directory => new Directory(Paths.document, 'secure_audio');
+
+export const generateFileKey = (): string => bytesToHex(Crypto.getRandomBytes(32));
+
+// Номер блока входит в проверяемые данные: блоки нельзя переставить или подменить местами
+const blockAad = (header: Uint8Array, index: number): Uint8Array => {
+  const aad = new Uint8Array(HEADER_SIZE + 4);
+  aad.set(header);
+  new DataView(aad.buffer).setUint32(HEADER_SIZE, index, true);
+  return aad;
+};
+
+class EncryptedFileWriter {
+  private readonly handle: FileHandle;
+  private readonly key: Uint8Array;
+  private index = 0;
+  size = 0;
+
+  constructor(target: File, key: string) {
+    if (!target.parentDirectory.exists) {
+      target.parentDirectory.create({ intermediates: true });
+    }
+    target.create({ overwrite: true });
+    this.handle = target.open();
+    this.key = hexToBytes(key);
+  }
+
+  write(chunk: Uint8Array): void {
+    const header = new Uint8Array(HEADER_SIZE);
+    new DataView(header.buffer).setUint32(0, chunk.length, true);
+    const nonce = Crypto.getRandomBytes(NONCE_SIZE);
+    const ciphertext = xchacha20poly1305(this.key, nonce, blockAad(header, this.index)).encrypt(chunk);
+
+    this.handle.writeBytes(header);
+    this.handle.writeBytes(nonce);
+    this.handle.writeBytes(ciphertext);
+    this.index++;
+    this.size += chunk.length;
+  }
+
+  close(): void {
+    this.handle.close();
+  }
+}
+
+// Шифрование открытого файла. Возвращает размер открытых данных
+export const encryptFile = async (source: File, target: File, key: string): Promise<number> => {
+  const writer = new EncryptedFileWriter(target, key);
+  const input = source.open();
+  try {
+    const total = input.size ?? 0;
+    while ((input.offset ?? total) < total) {
+      writer.write(input.readBytes(Math.min(CHUNK_SIZE, total - (input.offset ?? 0))));
+      // Отдаём поток JS интерфейсу между блоками
+      await nextTick();
+    }
+    return writer.size;
+  } finally {
+    input.close();
+    writer.close();
+  }
+};
+
+// Расшифровка во временный файл. Повреждённый или обрезанный файл - ошибка
+export const decryptFile = async (source: File, target: File, key: string, expectedSize: number): Promise<void> => {
+  const keyBytes = hexToBytes(key);
+  target.create({ overwrite: true });
+  const input = source.open();
+  const output = target.open();
+  try {
+    const total = input.size ?? 0;
+    let index = 0;
+    let size = 0;
+    while ((input.offset ?? total) < total) {
+      const header = input.readBytes(HEADER_SIZE);
+      const length = new DataView(header.buffer, header.byteOffset, HEADER_SIZE).getUint32(0, true);
+      const nonce = input.readBytes(NONCE_SIZE);
+      const ciphertext = input.readBytes(length + TAG_SIZE);
+      output.writeBytes(xchacha20poly1305(keyBytes, nonce, blockAad(header, index)).decrypt(ciphertext));
+      index++;
+      size += length;
+      await nextTick();
+    }
+    if (size !== expectedSize) {
+      throw new Error('Зашифрованный файл обрезан');
+    }
+  } finally {
+    input.close();
+    output.close();
+  }
+};
@@ -0,0 +1,8 @@
+// Названия локаций в списках записей и статистике
+
+import { Location } from '../types';
+
+export const UNKNOWN_LOCATION_NAME = 'Неизвестная локация';
+
+export const resolveLocationName = (locations: Location[], locationId: string): string =>
+  locations.find(location => location.id === locationId)?.name || UNKNOWN_LOCATION_NAME;
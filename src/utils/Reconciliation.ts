@@ -0,0 +1,94 @@
+// Правила сверки записей на устройстве со списком записей на сервере
+
+import { ApiRecording, Recording } from '../types';
+
+export interface ReconciliationPlan {
+  // Записи с других устройств: на устройстве только метаданные
+  added: Recording[];
+  // Загруженные записи, ответ сервера о которых не дошёл до устройства
+  linked: { id: string; updates: Partial<Recording> }[];
+  statusUpdates: { id: string; serverStatus: string }[];
+  // Записи с других устройств, которых на сервере больше нет
+  removed: string[];
+  // Удаления, которые больше не нужны: записи нет на сервере
+  staleDeletions: number[];
+}
+
+export const getRemoteId = (serverId: number): string => `server_${serverId}`;
+
+export const toRemoteRecording = (serverRecording: ApiRecording): Recording => {
+  const durationMs = (serverRecording.duration_seconds || 0) * 1000;
+  const startTime = new Date(serverRecording.recording_date);
+  return {
+    id: getRemoteId(serverRecording.id),
+    userId: serverRecording.user_id?.toString() || '',
+    username: serverRecording.username,
+    locationId: serverRecording.location_id?.toString() || '',
+    startTime,
+    endTime: new Date(startTime.getTime() + durationMs),
+    audioFilePath: '',
+    duration: durationMs,
+    serverId: serverRecording.id,
+    serverStatus: serverRecording.status,
+    synced: true,
+    remoteOnly: true,
+  };
+};
+
+// Запись связывается только по точному ключу: serverId, полученному при загрузке, или
+// client_id, который устройство передаёт при загрузке. Удалённые на устройстве записи
+// в список не возвращаются. Записи с других устройств и отметки об удалении убираются,
+// только если список с сервера получен полностью: иначе отсутствие в нём ничего не значит
+export function planReconciliation(
+  localRecordings: Recording[],
+  serverRecordings: ApiRecording[],
+  deletedServerIds: Set<number>,
+  serverListComplete: boolean
+): ReconciliationPlan {
+  const byServerId = new Map<number, Recording>();
+  const byId = new Map<string, Recording>();
+  localRecordings.forEach(recording => {
+    byId.set(recording.id, recording);
+    if (recording.serverId) byServerId.set(recording.serverId, recording);
+  });
+
+  const plan: ReconciliationPlan = { added: [], linked: [], statusUpdates: [], removed: [], staleDeletions: [] };
+  for (const serverRecording of serverRecordings) {
+    if (deletedServerIds.has(serverRecording.id)) continue;
+
+    const local = byServerId.get(serverRecording.id)
+      || (serverRecording.client_id ? byId.get(serverRecording.client_id) : undefined)
+      || byId.get(getRemoteId(serverRecording.id));
+
+    if (!local) {
+      plan.added.push(toRemoteRecording(serverRecording));
+      continue;
+    }
+
+    if (local.serverId !== serverRecording.id || !local.synced) {
+      plan.linked.push({
+        id: local.id,
+        updates: {
+          serverId: serverRecording.id,
+          serverStatus: serverRecording.status,
+          synced: true,
+          uploadAttempts: undefined,
+          nextRetryAt: undefined,
+          lastSyncError: undefined,
+        },
+      });
+    } else if (local.serverStatus !== serverRecording.status) {
+      plan.statusUpdates.push({ id: local.id, serverStatus: serverRecording.status });
+    }
+  }
+
+  if (serverListComplete) {
+    const serverIds = new Set(serverRecordings.map(recording => recording.id));
+    plan.removed = localRecordings
+      .filter(recording => recording.remoteOnly && !recording.legalHold)
+      .filter(recording => !recording.serverId || !serverIds.has(recording.serverId))
+      .map(recording => recording.id);
+    plan.staleDeletions = [...deletedServerIds].filter(serverId => !serverIds.has(serverId));
+  }
+  return plan;
+}
@@ -0,0 +1,27 @@
+// Права на удаление записей в зависимости от роли пользователя
+
+import { Recording, User } from '../types';
+
+// Статусы записи на сервере, после которых она участвует в проверке качества
+const AUDITED_STATUSES = ['reviewed', 'audited', 'archived'];
+
+export const isAudited = (recording: Recording): boolean =>
+  !!recording.serverStatus && AUDITED_STATUSES.includes(recording.serverStatus);
+
+const isOwner = (user: User, recording: Recording): boolean => recording.userId === user.id;
+
+// Запись на юридическом удержании не удаляет никто.
+// С устройства можно убрать любую загруженную запись - она остаётся на сервере.
+// Незагруженную запись продавца, кроме автора, удалить может только администратор
+export const canDeleteLocally = (user: User, recording: Recording): boolean => {
+  if (recording.legalHold) return false;
+  if (recording.synced) return true;
+  return user.role === 'admin' || isOwner(user, recording);
+};
+
+// Продавец удаляет с сервера только свои записи, пока они не попали на проверку
+export const canDeleteEverywhere = (user: User, recording: Recording): boolean => {
+  if (!recording.serverId || recording.legalHold) return false;
+  if (user.role === 'admin') return true;
+  return isOwner(user, recording) && !isAudited(recording);
+};
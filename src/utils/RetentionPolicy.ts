@@ -0,0 +1,43 @@
+// Правила хранения аудио на устройстве: что и в каком порядке можно удалить
+
+import { Recording } from '../types';
+
+export interface RecordingUsage {
+  recording: Recording;
+  bytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const hasLocalAudio = (recording: Recording): boolean =>
+  !recording.remoteOnly && !recording.audioRemovedAt && !!recording.audioFilePath;
+
+// Аудио удаляется с устройства только после подтверждённой загрузки на сервер:
+// метаданные и транскрипция остаются, запись воспроизводится с сервера
+export const isEvictable = (recording: Recording): boolean =>
+  hasLocalAudio(recording) && !!recording.synced && !!recording.serverId && !recording.legalHold;
+
+// Самые старые первыми: сначала истёкшие по сроку, затем сверх квоты
+export function selectForEviction(
+  recordings: RecordingUsage[],
+  totalBytes: number,
+  quotaBytes: number,
+  retentionDays: number,
+  now: Date = new Date()
+): RecordingUsage[] {
+  const expiresBefore = now.getTime() - retentionDays * DAY_MS;
+  const candidates = recordings
+    .filter(item => isEvictable(item.recording))
+    .sort((a, b) => new Date(a.recording.startTime).getTime() - new Date(b.recording.startTime).getTime());
+
+  const selected: RecordingUsage[] = [];
+  let remainingBytes = totalBytes;
+  for (const item of candidates) {
+    const expired = new Date(item.recording.startTime).getTime() < expiresBefore;
+    if (!expired && remainingBytes <= quotaBytes) break;
+
+    selected.push(item);
+    remainingBytes -= item.bytes;
+  }
+  return selected;
+}
@@ -0,0 +1,93 @@
+// Проверка выполнения скрипта продаж по транскрипции
+
+import { ScriptChecklist, ScriptChecklistItem, TranscriptionCache } from '../types';
+import { normalizeText } from './TextSearch';
+
+export interface ComplianceItemResult {
+  id: string;
+  title: string;
+  passed: boolean;
+}
+
+export interface ComplianceResult {
+  checklistId: string;
+  items: ComplianceItemResult[];
+  passedCount: number;
+  totalCount: number;
+}
+
+export interface SellerCompliance {
+  sellerName: string;
+  recordingsCount: number;
+  passedCount: number;
+  totalCount: number;
+  // Доля выполненных пунктов по всем записям продавца, 0..1
+  score: number;
+}
+
+const matchesItem = (text: string, item: ScriptChecklistItem): boolean => {
+  if (item.phrases.some(phrase => text.includes(normalizeText(phrase)))) {
+    return true;
+  }
+
+  return (item.patterns || []).some(pattern => {
+    try {
+      return new RegExp(pattern, 'i').test(text);
+    } catch (error) {
+      console.warn('Некорректное выражение в чек-листе скрипта:', pattern);
+      return false;
+    }
+  });
+};
+
+// Если транскрипция разделена по говорящим, проверяется только речь продавца.
+// Возвращает null, пока текста транскрипции нет
+export function evaluateScriptCompliance(
+  transcription: TranscriptionCache | undefined,
+  checklist: ScriptChecklist
+): ComplianceResult | null {
+  if (transcription?.status !== 'completed' || !transcription.text) {
+    return null;
+  }
+
+  const sellerText = transcription.turns && transcription.turns.length > 0
+    ? transcription.turns.filter(turn => turn.speaker === 'seller').map(turn => turn.text).join(' ')
+    : transcription.text;
+  const text = normalizeText(sellerText);
+
+  const items = checklist.items.map(item => ({
+    id: item.id,
+    title: item.title,
+    passed: matchesItem(text, item),
+  }));
+
+  return {
+    checklistId: checklist.id,
+    items,
+    passedCount: items.filter(item => item.passed).length,
+    totalCount: items.length,
+  };
+}
+
+export function aggregateComplianceBySeller(
+  results: { sellerName: string; result: ComplianceResult }[]
+): SellerCompliance[] {
+  const bySeller = new Map<string, SellerCompliance>();
+
+  results.forEach(({ sellerName, result }) => {
+    const summary = bySeller.get(sellerName) || {
+      sellerName,
+      recordingsCount: 0,
+      passedCount: 0,
+      totalCount: 0,
+      score: 0,
+    };
+    summary.recordingsCount += 1;
+    summary.passedCount += result.passedCount;
+    summary.totalCount += result.totalCount;
+    summary.score = summary.totalCount > 0 ? summary.passedCount / summary.totalCount : 0;
+    bySeller.set(sellerName, summary);
+  });
+
+  return Array.from(bySeller.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,84 @@
+// Полнотекстовый поиск по транскрипциям и данным записей (без учёта регистра и ё/е)
+
+import { TranscriptWord } from '../types';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Нормализация сохраняет длину строки, поэтому позиции совпадений подходят и для исходного текста
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е');
+}
+
+// Запрос разбивается на слова: запись подходит, если каждое слово где-то найдено
+export function splitQuery(query: string): string[] {
+  return normalizeText(query)
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+}
+
+export function matchesAllTerms(fields: (string | undefined)[], terms: string[]): boolean {
+  const haystack = fields.filter(Boolean).map(field => normalizeText(field as string));
+  return terms.every(term => haystack.some(field => field.includes(term)));
+}
+
+// Все вхождения слов запроса в тексте, отсортированные и без пересечений
+export function findMatches(text: string, terms: string[]): TextRange[] {
+  const normalized = normalizeText(text);
+  const ranges: TextRange[] = [];
+
+  terms.forEach(term => {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = normalized.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+// Разбиение текста на участки для подсветки совпадений
+export function highlightSegments(text: string, ranges: TextRange[]): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  ranges.forEach(range => {
+    if (range.start > position) {
+      segments.push({ text: text.slice(position, range.start), highlighted: false });
+    }
+    segments.push({ text: text.slice(range.start, range.end), highlighted: true });
+    position = range.end;
+  });
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), highlighted: false });
+  }
+
+  return segments;
+}
+
+// Слова транскрипции с временем, в которых встречаются слова запроса
+export function findMatchingWords(words: TranscriptWord[], terms: string[]): TranscriptWord[] {
+  return words.filter(word => {
+    const normalized = normalizeText(word.word);
+    return terms.some(term => normalized.includes(term));
+  });
+}
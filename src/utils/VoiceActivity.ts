@@ -0,0 +1,48 @@
+// Простое определение речи по уровню сигнала (voice activity detection)
+
+import { MeteringSample, TrimOffsets } from '../types';
+
+// Минимальная длительность громкого участка, чтобы считать его речью, а не щелчком
+export const MIN_SPEECH_MS = 500;
+// Запас тишины, оставляемый до и после речи при обрезке
+const TRIM_PADDING_MS = 1000;
+
+// Границы речи в записи: от начала первого до конца последнего участка речи.
+// Возвращает null, если речь не найдена
+export function detectSpeechBounds(
+  samples: MeteringSample[],
+  thresholdDb: number,
+  durationMs: number
+): TrimOffsets | null {
+  let firstSpeechMs: number | null = null;
+  let lastSpeechEndMs: number | null = null;
+  let runStartMs: number | null = null;
+
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    const sampleEndMs = next ? next.offsetMs : sample.offsetMs;
+
+    if (sample.levelDb >= thresholdDb) {
+      if (runStartMs === null) {
+        runStartMs = sample.offsetMs;
+      }
+      if (sampleEndMs - runStartMs >= MIN_SPEECH_MS) {
+        if (firstSpeechMs === null) {
+          firstSpeechMs = runStartMs;
+        }
+        lastSpeechEndMs = sampleEndMs;
+      }
+    } else {
+      runStartMs = null;
+    }
+  });
+
+  if (firstSpeechMs === null || lastSpeechEndMs === null) {
+    return null;
+  }
+
+  return {
+    startOffsetMs: Math.max(0, firstSpeechMs - TRIM_PADDING_MS),
+    endOffsetMs: Math.min(durationMs, (lastSpeechEndMs as number) + TRIM_PADDING_MS),
+  };
+}
@@ -0,0 +1,42 @@
+import { calculateConversationMetrics } from '../ConversationMetrics';
+import { SpeakerRole, TranscriptTurn } from '../../types';
+
+const turn = (speaker: SpeakerRole, startMs: number, endMs: number): TranscriptTurn => ({
+  speaker,
+  startMs,
+  endMs,
+  text: '',
+});
+
+describe('calculateConversationMetrics', () => {
+  it('returns null without turns', () => {
+    expect(calculateConversationMetrics([])).toBeNull();
+  });
+
+  it('sums talk time per speaker', () => {
+    const metrics = calculateConversationMetrics([
+      turn('seller', 0, 3000),
+      turn('customer', 3000, 4000),
+      turn('seller', 4000, 5000),
+    ]);
+    expect(metrics?.sellerTalkMs).toBe(4000);
+    expect(metrics?.customerTalkMs).toBe(1000);
+    expect(metrics?.sellerTalkRatio).toBeCloseTo(0.8);
+  });
+
+  it('joins consecutive turns of one speaker into a monologue', () => {
+    const metrics = calculateConversationMetrics([
+      turn('customer', 0, 2000),
+      turn('seller', 2500, 4000),
+      turn('seller', 4500, 7000),
+      turn('customer', 7000, 9000),
+    ]);
+    expect(metrics?.longestMonologue).toEqual({ speaker: 'seller', startMs: 2500, durationMs: 4500 });
+  });
+
+  it('ignores turns with inverted timestamps', () => {
+    const metrics = calculateConversationMetrics([turn('seller', 2000, 1000)]);
+    expect(metrics?.sellerTalkMs).toBe(0);
+    expect(metrics?.sellerTalkRatio).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { buildDashboardStats, DashboardEntry, getHistoryStart, getPeriodRange } from '../DashboardStats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 5, 15, 12, 0);
+
+const entry = (date: Date, durationMs: number, sellerName = 'Анна', locationName = 'ТЦ'): DashboardEntry => ({
+  date,
+  durationMs,
+  locationId: locationName,
+  locationName,
+  sellerName,
+});
+
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+describe('getPeriodRange', () => {
+  it('starts today at midnight', () => {
+    expect(getPeriodRange('today', now)).toEqual({ start: new Date(2026, 5, 15), end: now });
+  });
+
+  it('covers the last 7 and 30 days', () => {
+    expect(getPeriodRange('week', now).start).toEqual(new Date(now.getTime() - 7 * DAY_MS));
+    expect(getPeriodRange('month', now).start).toEqual(new Date(now.getTime() - 30 * DAY_MS));
+  });
+});
+
+describe('getHistoryStart', () => {
+  it('reaches back to the month before the current month period', () => {
+    expect(getHistoryStart(now)).toEqual(new Date(now.getTime() - 60 * DAY_MS));
+  });
+});
+
+describe('buildDashboardStats', () => {
+  it('compares today with yesterday up to the same time', () => {
+    const stats = buildDashboardStats([
+      entry(hoursAgo(1), 60000),
+      entry(hoursAgo(2), 120000),
+      entry(hoursAgo(25), 60000),
+      // Вчера позже текущего времени - в сравнение не входит
+      entry(hoursAgo(23), 60000),
+    ], 'today', now);
+
+    expect(stats.current).toEqual({ count: 2, totalDurationMs: 180000, averageDurationMs: 90000 });
+    expect(stats.previous.count).toBe(1);
+    expect(stats.trendPercent).toBe(100);
+  });
+
+  it('has no trend without a previous period', () => {
+    const stats = buildDashboardStats([entry(hoursAgo(1), 60000)], 'week', now);
+    expect(stats.trendPercent).toBeNull();
+  });
+
+  it('groups by seller and location sorted by count', () => {
+    const stats = buildDashboardStats([
+      entry(hoursAgo(1), 60000, 'Анна', 'ТЦ'),
+      entry(hoursAgo(2), 60000, 'Иван', 'Рынок'),
+      entry(hoursAgo(3), 60000, 'Иван', 'ТЦ'),
+      entry(hoursAgo(24 * 8), 60000, 'Анна', 'ТЦ'),
+    ], 'week', now);
+
+    expect(stats.bySeller.map(group => [group.name, group.count, group.trendPercent])).toEqual([
+      ['Иван', 2, null],
+      ['Анна', 1, 0],
+    ]);
+    expect(stats.byLocation[0]).toMatchObject({ name: 'ТЦ', count: 2, trendPercent: 100 });
+  });
+});
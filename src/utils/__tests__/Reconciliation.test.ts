@@ -0,0 +1,87 @@
+import { planReconciliation, toRemoteRecording } from '../Reconciliation';
+import { ApiRecording, Recording } from '../../types';
+
+const serverRecording = (id: number, overrides: Partial<ApiRecording> = {}): ApiRecording => ({
+  id,
+  filename: `recording_${id}.m4a`,
+  duration_seconds: 30,
+  location_id: 1,
+  user_id: 7,
+  recording_date: '2026-06-01T10:00:00.000Z',
+  uploaded_at: '2026-06-01T10:05:00.000Z',
+  status: 'uploaded',
+  has_transcription: false,
+  ...overrides,
+});
+
+const localRecording = (id: string, overrides: Partial<Recording> = {}): Recording => ({
+  id,
+  userId: '7',
+  locationId: '1',
+  startTime: new Date('2026-06-01T10:00:00.000Z'),
+  audioFilePath: `file:///recordings/${id}.m4a`,
+  duration: 30000,
+  ...overrides,
+});
+
+describe('planReconciliation', () => {
+  it('adds recordings from other devices as remote-only metadata', () => {
+    const plan = planReconciliation([], [serverRecording(5)], new Set(), true);
+    expect(plan.added).toEqual([toRemoteRecording(serverRecording(5))]);
+    expect(plan.added[0]).toMatchObject({ id: 'server_5', serverId: 5, remoteOnly: true, synced: true });
+  });
+
+  it('links an uploaded recording by client_id', () => {
+    const plan = planReconciliation(
+      [localRecording('abc', { synced: false, uploadAttempts: 3 })],
+      [serverRecording(5, { client_id: 'abc', status: 'reviewed' })],
+      new Set(),
+      true
+    );
+    expect(plan.added).toEqual([]);
+    expect(plan.linked).toEqual([{
+      id: 'abc',
+      updates: expect.objectContaining({ serverId: 5, serverStatus: 'reviewed', synced: true, uploadAttempts: undefined }),
+    }]);
+  });
+
+  it('updates the status of a linked recording', () => {
+    const plan = planReconciliation(
+      [localRecording('abc', { serverId: 5, synced: true, serverStatus: 'uploaded' })],
+      [serverRecording(5, { status: 'audited' })],
+      new Set(),
+      true
+    );
+    expect(plan.linked).toEqual([]);
+    expect(plan.statusUpdates).toEqual([{ id: 'abc', serverStatus: 'audited' }]);
+  });
+
+  it('does not bring back recordings deleted on the device', () => {
+    const plan = planReconciliation([], [serverRecording(5)], new Set([5]), true);
+    expect(plan.added).toEqual([]);
+  });
+
+  it('removes remote-only rows missing from a complete server list', () => {
+    const stale = toRemoteRecording(serverRecording(4));
+    const held = { ...toRemoteRecording(serverRecording(3)), legalHold: true };
+    const current = toRemoteRecording(serverRecording(5));
+    const own = localRecording('abc', { serverId: 2, synced: true });
+
+    const plan = planReconciliation([stale, held, current, own], [serverRecording(5)], new Set(), true);
+    expect(plan.removed).toEqual([stale.id]);
+  });
+
+  it('keeps remote-only rows when the server list is partial', () => {
+    const stale = toRemoteRecording(serverRecording(4));
+    const plan = planReconciliation([stale], [serverRecording(5)], new Set(), false);
+    expect(plan.removed).toEqual([]);
+  });
+
+  it('drops deletions of recordings missing from a complete server list', () => {
+    const complete = planReconciliation([], [serverRecording(5)], new Set([4, 5]), true);
+    expect(complete.staleDeletions).toEqual([4]);
+
+    const partial = planReconciliation([], [serverRecording(5)], new Set([4, 5]), false);
+    expect(partial.staleDeletions).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { canDeleteEverywhere, canDeleteLocally, isAudited } from '../RecordingPermissions';
+import { Recording, User } from '../../types';
+
+const seller: User = { id: '1', username: 'anna', isLoggedIn: true, role: 'seller' };
+const otherSeller: User = { id: '2', username: 'ivan', isLoggedIn: true, role: 'seller' };
+const admin: User = { id: '3', username: 'admin', isLoggedIn: true, role: 'admin' };
+
+const recording = (overrides: Partial<Recording> = {}): Recording => ({
+  id: 'r1',
+  userId: seller.id,
+  locationId: '1',
+  startTime: new Date('2026-06-01T10:00:00.000Z'),
+  audioFilePath: 'file:///recordings/r1.m4a',
+  duration: 60000,
+  ...overrides,
+});
+
+describe('isAudited', () => {
+  it('treats reviewed, audited and archived recordings as audited', () => {
+    expect(isAudited(recording({ serverStatus: 'reviewed' }))).toBe(true);
+    expect(isAudited(recording({ serverStatus: 'archived' }))).toBe(true);
+    expect(isAudited(recording({ serverStatus: 'uploaded' }))).toBe(false);
+    expect(isAudited(recording())).toBe(false);
+  });
+});
+
+describe('canDeleteLocally', () => {
+  it('allows anyone to remove a synced recording from the device', () => {
+    expect(canDeleteLocally(otherSeller, recording({ synced: true, serverId: 10 }))).toBe(true);
+  });
+
+  it('limits unsynced recordings to the author and admins', () => {
+    expect(canDeleteLocally(seller, recording())).toBe(true);
+    expect(canDeleteLocally(admin, recording())).toBe(true);
+    expect(canDeleteLocally(otherSeller, recording())).toBe(false);
+  });
+
+  it('blocks recordings on legal hold', () => {
+    expect(canDeleteLocally(admin, recording({ synced: true, legalHold: true }))).toBe(false);
+  });
+});
+
+describe('canDeleteEverywhere', () => {
+  it('requires a server copy', () => {
+    expect(canDeleteEverywhere(admin, recording())).toBe(false);
+  });
+
+  it('lets the author delete until the recording is audited', () => {
+    expect(canDeleteEverywhere(seller, recording({ serverId: 10 }))).toBe(true);
+    expect(canDeleteEverywhere(seller, recording({ serverId: 10, serverStatus: 'audited' }))).toBe(false);
+    expect(canDeleteEverywhere(otherSeller, recording({ serverId: 10 }))).toBe(false);
+  });
+
+  it('lets admins delete audited recordings but not held ones', () => {
+    expect(canDeleteEverywhere(admin, recording({ serverId: 10, serverStatus: 'audited' }))).toBe(true);
+    expect(canDeleteEverywhere(admin, recording({ serverId: 10, legalHold: true }))).toBe(false);
+  });
+});
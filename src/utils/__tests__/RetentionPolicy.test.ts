@@ -0,0 +1,63 @@
+import { hasLocalAudio, isEvictable, RecordingUsage, selectForEviction } from '../RetentionPolicy';
+import { Recording } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-30T12:00:00.000Z');
+
+const usage = (id: string, daysAgo: number, bytes: number, overrides: Partial<Recording> = {}): RecordingUsage => ({
+  recording: {
+    id,
+    userId: '1',
+    locationId: '1',
+    startTime: new Date(now.getTime() - daysAgo * DAY_MS),
+    audioFilePath: `file:///recordings/${id}.m4a`,
+    duration: 60000,
+    synced: true,
+    serverId: Number(id.replace(/\D/g, '')) || 1,
+    ...overrides,
+  },
+  bytes,
+});
+
+const ids = (items: RecordingUsage[]) => items.map(item => item.recording.id);
+
+describe('hasLocalAudio', () => {
+  it('is false for remote-only recordings and removed audio', () => {
+    expect(hasLocalAudio(usage('r1', 1, 10).recording)).toBe(true);
+    expect(hasLocalAudio(usage('r1', 1, 10, { remoteOnly: true }).recording)).toBe(false);
+    expect(hasLocalAudio(usage('r1', 1, 10, { audioRemovedAt: now.toISOString() }).recording)).toBe(false);
+  });
+});
+
+describe('isEvictable', () => {
+  it('keeps unsynced and held recordings', () => {
+    expect(isEvictable(usage('r1', 1, 10, { synced: false }).recording)).toBe(false);
+    expect(isEvictable(usage('r1', 1, 10, { serverId: undefined }).recording)).toBe(false);
+    expect(isEvictable(usage('r1', 1, 10, { legalHold: true }).recording)).toBe(false);
+  });
+});
+
+describe('selectForEviction', () => {
+  it('removes audio past the retention period', () => {
+    const recordings = [usage('r1', 40, 10), usage('r2', 5, 10)];
+    expect(ids(selectForEviction(recordings, 20, 1000, 30, now))).toEqual(['r1']);
+  });
+
+  it('removes the oldest recordings until usage fits the quota', () => {
+    const recordings = [usage('r3', 1, 100), usage('r1', 10, 100), usage('r2', 5, 100)];
+    expect(ids(selectForEviction(recordings, 300, 150, 30, now))).toEqual(['r1', 'r2']);
+  });
+
+  it('never selects unsynced or held recordings', () => {
+    const recordings = [
+      usage('r1', 40, 100, { synced: false }),
+      usage('r2', 40, 100, { legalHold: true }),
+      usage('r3', 20, 100),
+    ];
+    expect(ids(selectForEviction(recordings, 300, 50, 30, now))).toEqual(['r3']);
+  });
+
+  it('selects nothing within the period and quota', () => {
+    expect(selectForEviction([usage('r1', 1, 100)], 100, 1000, 30, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { aggregateComplianceBySeller, evaluateScriptCompliance } from '../ScriptCompliance';
+import { ScriptChecklist, TranscriptionCache } from '../../types';
+
+const checklist: ScriptChecklist = {
+  id: 'default',
+  name: 'Скрипт',
+  items: [
+    { id: 'greeting', title: 'Приветствие', phrases: ['здравствуйте', 'добрый день'] },
+    { id: 'offer', title: 'Предложение', phrases: [], patterns: ['скидк[аиу]'] },
+    { id: 'farewell', title: 'Прощание', phrases: ['до свидания'] },
+  ],
+};
+
+const completed = (text: string, extra: Partial<TranscriptionCache> = {}): TranscriptionCache => ({
+  status: 'completed',
+  text,
+  requestedAt: '2026-01-01T10:00:00.000Z',
+  ...extra,
+});
+
+describe('evaluateScriptCompliance', () => {
+  it('returns null until the transcription is completed', () => {
+    expect(evaluateScriptCompliance(undefined, checklist)).toBeNull();
+    expect(evaluateScriptCompliance({ status: 'processing', requestedAt: '' }, checklist)).toBeNull();
+  });
+
+  it('matches phrases and patterns ignoring case', () => {
+    const result = evaluateScriptCompliance(completed('Добрый день! Сегодня СКИДКИ на всё'), checklist);
+    expect(result?.items.map(item => item.passed)).toEqual([true, true, false]);
+    expect(result?.passedCount).toBe(2);
+    expect(result?.totalCount).toBe(3);
+  });
+
+  it('checks only seller speech when turns are available', () => {
+    const transcription = completed('Здравствуйте. До свидания', {
+      turns: [
+        { speaker: 'customer', startMs: 0, endMs: 1000, text: 'Здравствуйте' },
+        { speaker: 'seller', startMs: 1000, endMs: 2000, text: 'До свидания' },
+      ],
+    });
+    const result = evaluateScriptCompliance(transcription, checklist);
+    expect(result?.items.find(item => item.id === 'greeting')?.passed).toBe(false);
+    expect(result?.items.find(item => item.id === 'farewell')?.passed).toBe(true);
+  });
+
+  it('skips invalid patterns', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const broken: ScriptChecklist = {
+      ...checklist,
+      items: [{ id: 'broken', title: 'Ошибка', phrases: [], patterns: ['('] }],
+    };
+    expect(evaluateScriptCompliance(completed('текст'), broken)?.passedCount).toBe(0);
+    warn.mockRestore();
+  });
+});
+
+describe('aggregateComplianceBySeller', () => {
+  it('scores sellers by passed items across recordings', () => {
+    const result = (passedCount: number, totalCount: number) => ({
+      checklistId: 'default',
+      items: [],
+      passedCount,
+      totalCount,
+    });
+    const summary = aggregateComplianceBySeller([
+      { sellerName: 'Анна', result: result(1, 3) },
+      { sellerName: 'Иван', result: result(3, 3) },
+      { sellerName: 'Анна', result: result(2, 3) },
+    ]);
+    expect(summary.map(seller => seller.sellerName)).toEqual(['Иван', 'Анна']);
+    expect(summary[1]).toMatchObject({ recordingsCount: 2, passedCount: 3, totalCount: 6, score: 0.5 });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  findMatches,
+  findMatchingWords,
+  highlightSegments,
+  matchesAllTerms,
+  normalizeText,
+  splitQuery,
+} from '../TextSearch';
+
+describe('normalizeText', () => {
+  it('ignores case and treats ё as е', () => {
+    expect(normalizeText('Ёлка ЁЖ')).toBe('елка еж');
+  });
+});
+
+describe('splitQuery', () => {
+  it('splits on whitespace and drops empty terms', () => {
+    expect(splitQuery('  Скидка   на  Ёлку ')).toEqual(['скидка', 'на', 'елку']);
+  });
+});
+
+describe('matchesAllTerms', () => {
+  it('requires every term in some field', () => {
+    const fields = ['Иван', undefined, 'Покупатель спросил про скидку'];
+    expect(matchesAllTerms(fields, ['иван', 'скидк'])).toBe(true);
+    expect(matchesAllTerms(fields, ['иван', 'доставка'])).toBe(false);
+  });
+});
+
+describe('findMatches', () => {
+  it('finds every occurrence and merges overlapping ranges', () => {
+    expect(findMatches('Скидка, скидочка', ['скид', 'кидка'])).toEqual([
+      { start: 0, end: 6 },
+      { start: 8, end: 12 },
+    ]);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('splits text into plain and highlighted parts', () => {
+    expect(highlightSegments('есть скидка тут', [{ start: 5, end: 11 }])).toEqual([
+      { text: 'есть ', highlighted: false },
+      { text: 'скидка', highlighted: true },
+      { text: ' тут', highlighted: false },
+    ]);
+  });
+});
+
+describe('findMatchingWords', () => {
+  it('returns transcript words containing a term', () => {
+    const words = [
+      { word: 'Добрый', startMs: 0, endMs: 400 },
+      { word: 'Скидка', startMs: 500, endMs: 900 },
+    ];
+    expect(findMatchingWords(words, ['скид'])).toEqual([words[1]]);
+  });
+});
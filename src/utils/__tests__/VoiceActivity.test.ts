@@ -0,0 +1,47 @@
+import { detectSpeechBounds, MIN_SPEECH_MS } from '../VoiceActivity';
+import { MeteringSample } from '../../types';
+
+const THRESHOLD_DB = -40;
+const STEP_MS = 250;
+
+// Уровни сигнала с шагом STEP_MS, начиная с нуля
+const toSamples = (levels: number[]): MeteringSample[] =>
+  levels.map((levelDb, index) => ({ offsetMs: index * STEP_MS, levelDb }));
+
+const silence = (count: number) => Array<number>(count).fill(-60);
+const speech = (count: number) => Array<number>(count).fill(-20);
+
+describe('detectSpeechBounds', () => {
+  it('returns null for silence', () => {
+    expect(detectSpeechBounds(toSamples(silence(20)), THRESHOLD_DB, 5000)).toBeNull();
+  });
+
+  it('ignores loud runs shorter than the minimum speech length', () => {
+    const clickSamples = Math.floor(MIN_SPEECH_MS / STEP_MS) - 1;
+    const samples = toSamples([...silence(8), ...speech(clickSamples), ...silence(8)]);
+    expect(detectSpeechBounds(samples, THRESHOLD_DB, 5000)).toBeNull();
+  });
+
+  it('keeps padding around speech', () => {
+    // Речь с 4000 до 6000 мс
+    const samples = toSamples([...silence(16), ...speech(8), ...silence(16)]);
+    expect(detectSpeechBounds(samples, THRESHOLD_DB, 10000)).toEqual({
+      startOffsetMs: 3000,
+      endOffsetMs: 7000,
+    });
+  });
+
+  it('clamps bounds to the recording', () => {
+    const samples = toSamples([...speech(8), ...silence(2)]);
+    const bounds = detectSpeechBounds(samples, THRESHOLD_DB, 2500);
+    expect(bounds).toEqual({ startOffsetMs: 0, endOffsetMs: 2500 });
+  });
+
+  it('spans from the first to the last speech run', () => {
+    const samples = toSamples([...silence(8), ...speech(4), ...silence(20), ...speech(4), ...silence(8)]);
+    expect(detectSpeechBounds(samples, THRESHOLD_DB, 11000)).toEqual({
+      startOffsetMs: 1000,
+      endOffsetMs: 10000,
+    });
+  });
+});